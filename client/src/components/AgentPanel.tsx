@@ -0,0 +1,137 @@
+import type { AgentState, QueueItem } from "@shared/schema";
+import { Clock, Cpu } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface AgentPanelProps {
+  agents: AgentState[];
+  /** 지금 단계를 실행 중인 워커 이름 (메인 스레드면 null) */
+  activeAgent: string | null;
+  className?: string;
+}
+
+/**
+ * 워커 에이전트 상태
+ * 워커마다 자기 콜스택, 태스크 큐, 마이크로태스크 큐, 가상 시계를 가짐
+ */
+export function AgentPanel({
+  agents,
+  activeAgent,
+  className,
+}: AgentPanelProps) {
+  return (
+    <div
+      className={cn(
+        "h-full bg-card border rounded-lg overflow-hidden flex flex-col",
+        className,
+      )}
+    >
+      {/* Panel header */}
+      <div className="h-10 flex items-center justify-between px-4 border-b bg-violet-100/80 dark:bg-violet-900/50">
+        <div className="flex items-center gap-2">
+          <Cpu className="w-4 h-4 text-violet-600 dark:text-violet-300" />
+          <h2 className="text-sm font-semibold text-violet-800 dark:text-violet-200">
+            Workers
+          </h2>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {agents.length} agent{agents.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+
+      {/* 워커별 상태 - 수평 배치 */}
+      <div className="flex-1 overflow-auto p-3 flex gap-3">
+        {agents.map((agent) => (
+          <div
+            key={agent.id}
+            className={cn(
+              "flex-1 min-w-[320px] border rounded-lg p-3 flex flex-col gap-2 transition-all duration-300",
+              agent.name === activeAgent
+                ? "border-violet-400 dark:border-violet-500 shadow-lg shadow-violet-500/20"
+                : "border-violet-200 dark:border-violet-800",
+              agent.terminated && "opacity-50",
+            )}
+            data-testid={`agent-${agent.id}`}
+          >
+            {/* 이름 + 가상 시계 */}
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold font-mono text-violet-800 dark:text-violet-200">
+                {agent.name}
+              </span>
+              {agent.terminated ? (
+                <Badge variant="outline" className="text-[10px]">
+                  terminated
+                </Badge>
+              ) : (
+                <span className="flex items-center gap-1 text-[10px] font-mono text-muted-foreground">
+                  <Clock className="w-3 h-3" />
+                  {agent.currentTime}ms
+                </span>
+              )}
+            </div>
+
+            {/* Call Stack (위가 최상단) + 큐 - 나란히 배치 */}
+            <div className="grid grid-cols-3 gap-2">
+              <AgentSection
+                title="Call Stack"
+                items={[...agent.callStack].reverse().map((frame) => ({
+                  id: frame.id,
+                  label: frame.functionName,
+                }))}
+                color="bg-emerald-100/60 dark:bg-emerald-900/40"
+              />
+              <AgentSection
+                title="Task Queue"
+                items={agent.taskQueue.map(toSectionItem)}
+                color="bg-blue-100/60 dark:bg-blue-900/40"
+              />
+              <AgentSection
+                title="Microtask Queue"
+                items={agent.microtaskQueue.map(toSectionItem)}
+                color="bg-purple-100/60 dark:bg-purple-900/40"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface AgentSectionProps {
+  title: string;
+  items: { id: string; label: string }[];
+  color: string;
+}
+
+const toSectionItem = (item: QueueItem) => ({
+  id: item.id,
+  label: item.source,
+});
+
+function AgentSection({ title, items, color }: AgentSectionProps) {
+  return (
+    <div className="min-w-0">
+      <p className="text-[10px] uppercase tracking-wide text-muted-foreground mb-1">
+        {title}
+      </p>
+      <div className="flex flex-col gap-1">
+        {items.length === 0 ? (
+          <span className="text-xs text-muted-foreground">empty</span>
+        ) : (
+          items.map((item) => (
+            <div
+              key={item.id}
+              className={cn(
+                "text-xs font-mono truncate px-2 py-1 rounded",
+                color,
+              )}
+            >
+              {item.label}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
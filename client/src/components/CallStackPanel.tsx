@@ -6,9 +6,14 @@ import { cn } from "@/lib/utils";
 
 interface CallStackPanelProps {
   frames: StackFrame[];
+  /** 콜스택을 떠나 yield에서 일시 중지된 제너레이터 프레임 */
+  suspendedFrames?: StackFrame[];
 }
 
-export function CallStackPanel({ frames }: CallStackPanelProps) {
+export function CallStackPanel({
+  frames,
+  suspendedFrames = [],
+}: CallStackPanelProps) {
   const [expandedFrames, setExpandedFrames] = useState<Set<string>>(new Set());
 
   const toggleFrame = (frameId: string) => {
@@ -140,6 +145,29 @@ export function CallStackPanel({ frames }: CallStackPanelProps) {
           </div>
         )}
       </div>
+
+      {/* Suspended generator frames - 콜스택 밖에서 대기 */}
+      {suspendedFrames.length > 0 && (
+        <div className="border-t px-4 py-3 space-y-2">
+          <div className="text-xs font-semibold text-muted-foreground">
+            Suspended ({suspendedFrames.length})
+          </div>
+          {suspendedFrames.map((frame) => (
+            <div
+              key={frame.id}
+              className="border border-dashed rounded-lg px-3 py-2 opacity-70 animate-in fade-in"
+              data-testid={`suspended-frame-${frame.id}`}
+            >
+              <div className="text-sm font-semibold font-mono text-emerald-900 dark:text-emerald-100">
+                {frame.functionName}
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">
+                {frame.location}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,6 +1,17 @@
 import { javascript } from "@codemirror/lang-javascript";
-import { StateEffect, StateField } from "@codemirror/state";
-import { Decoration, type DecorationSet, EditorView } from "@codemirror/view";
+import {
+  type EditorState,
+  RangeSet,
+  StateEffect,
+  StateField,
+} from "@codemirror/state";
+import {
+  Decoration,
+  type DecorationSet,
+  EditorView,
+  GutterMarker,
+  gutter,
+} from "@codemirror/view";
 import { materialDark } from "@uiw/codemirror-theme-material";
 import CodeMirror, { type ReactCodeMirrorRef } from "@uiw/react-codemirror";
 import { AlignLeft, AlertCircle } from "lucide-react";
@@ -10,7 +21,7 @@ import parserEstree from "prettier/plugins/estree";
 import { useCallback, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import type { ParseError } from "@/lib/dynamic/types";
+import type { Breakpoint, ParseError } from "@/lib/dynamic/types";
 
 interface CodeEditorProps {
   code: string;
@@ -18,6 +29,9 @@ interface CodeEditorProps {
   onChange?: (code: string) => void;
   readOnly?: boolean;
   parseErrors?: ParseError[];
+  breakpoints?: Breakpoint[];
+  /** 지정하면 거터 클릭으로 브레이크포인트 토글 (우클릭은 조건 입력) */
+  onBreakpointsChange?: (breakpoints: Breakpoint[]) => void;
 }
 
 // 현재 실행 줄 설정 Effect
@@ -50,6 +64,76 @@ const executingLineField = StateField.define<DecorationSet>({
   provide: (f) => EditorView.decorations.from(f),
 });
 
+// 브레이크포인트 거터 마커 (조건이 있으면 주황색)
+class BreakpointMarker extends GutterMarker {
+  constructor(readonly condition: string | null) {
+    super();
+  }
+
+  // 줄 앞에 줄바꿈을 넣으면 마커가 원래 코드를 따라 내려감
+  startSide = 1;
+
+  eq(other: BreakpointMarker) {
+    return other.condition === this.condition;
+  }
+
+  toDOM() {
+    const dot = document.createElement("span");
+    dot.className = this.condition
+      ? "cm-breakpoint cm-breakpoint-conditional"
+      : "cm-breakpoint";
+    if (this.condition) dot.title = this.condition;
+    return dot;
+  }
+}
+
+// 외부 브레이크포인트 목록으로 마커 교체 Effect
+const setBreakpoints = StateEffect.define<Breakpoint[]>();
+
+// 브레이크포인트 마커 (편집 시 줄 이동을 따라감, 지워진 줄의 마커는 제거)
+const breakpointField = StateField.define<RangeSet<BreakpointMarker>>({
+  create() {
+    return RangeSet.empty;
+  },
+  update(markers, tr) {
+    let next = markers.map(tr.changes);
+    for (const e of tr.effects) {
+      if (e.is(setBreakpoints)) {
+        next = RangeSet.of(
+          e.value
+            .filter((bp) => bp.line >= 1 && bp.line <= tr.state.doc.lines)
+            .map((bp) =>
+              new BreakpointMarker(bp.condition).range(
+                tr.state.doc.line(bp.line).from,
+              ),
+            ),
+          true,
+        );
+      }
+    }
+    return next;
+  },
+});
+
+// 마커 위치를 줄 번호 목록으로 변환 (같은 줄로 합쳐진 마커는 하나만)
+function readBreakpoints(state: EditorState): Breakpoint[] {
+  const breakpoints: Breakpoint[] = [];
+  for (
+    const cursor = state.field(breakpointField).iter();
+    cursor.value;
+    cursor.next()
+  ) {
+    const line = state.doc.lineAt(cursor.from).number;
+    if (!breakpoints.some((bp) => bp.line === line)) {
+      breakpoints.push({ line, condition: cursor.value.condition });
+    }
+  }
+  return breakpoints;
+}
+
+const breakpointsKey = (breakpoints: Breakpoint[]) =>
+  breakpoints.map((bp) => `${bp.line}:${bp.condition ?? ""}`).join("|");
+
 // 커스텀 테마 설정 (Material Dark 기반 + 추가 스타일)
 const customTheme = EditorView.theme({
   "&": {
@@ -67,6 +151,23 @@ const customTheme = EditorView.theme({
   ".cm-activeLineGutter": {
     backgroundColor: "rgba(130, 170, 255, 0.15)",
   },
+  ".cm-breakpoint-gutter .cm-gutterElement": {
+    cursor: "pointer",
+    width: "14px",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  ".cm-breakpoint": {
+    display: "inline-block",
+    width: "9px",
+    height: "9px",
+    borderRadius: "50%",
+    backgroundColor: "#f07178",
+  },
+  ".cm-breakpoint-conditional": {
+    backgroundColor: "#ffcb6b",
+  },
   // 현재 실행 줄 스타일
   ".cm-executing-line": {
     background:
@@ -83,14 +184,91 @@ export function CodeEditor({
   onChange,
   readOnly = false,
   parseErrors = [],
+  breakpoints = [],
+  onBreakpointsChange,
 }: CodeEditorProps) {
   const editorRef = useRef<ReactCodeMirrorRef>(null);
 
+  // 거터 핸들러가 최신 콜백을 쓰도록 ref로 보관
+  const onBreakpointsChangeRef = useRef(onBreakpointsChange);
+  onBreakpointsChangeRef.current = onBreakpointsChange;
+
+  const hasBreakpoints = onBreakpointsChange !== undefined;
+
   // Extensions 메모이제이션
-  const extensions = useMemo(
-    () => [javascript(), executingLineField, customTheme],
-    [],
-  );
+  const extensions = useMemo(() => {
+    if (!hasBreakpoints) {
+      return [javascript(), executingLineField, customTheme];
+    }
+
+    // 클릭한 줄의 브레이크포인트를 바꿔 부모에 알림 (condition이 undefined면 제거)
+    const setLineBreakpoint = (
+      view: EditorView,
+      line: number,
+      condition: string | null | undefined,
+    ) => {
+      const others = readBreakpoints(view.state).filter(
+        (bp) => bp.line !== line,
+      );
+      onBreakpointsChangeRef.current?.(
+        condition === undefined
+          ? others
+          : [...others, { line, condition }].sort((a, b) => a.line - b.line),
+      );
+    };
+
+    const findBreakpoint = (view: EditorView, line: number) =>
+      readBreakpoints(view.state).find((bp) => bp.line === line);
+
+    const breakpointGutter = gutter({
+      class: "cm-breakpoint-gutter",
+      markers: (view) => view.state.field(breakpointField),
+      initialSpacer: () => new BreakpointMarker(null),
+      domEventHandlers: {
+        mousedown(view, block, event) {
+          if ((event as MouseEvent).button !== 0) return false;
+          const line = view.state.doc.lineAt(block.from).number;
+          setLineBreakpoint(
+            view,
+            line,
+            findBreakpoint(view, line) ? undefined : null,
+          );
+          return true;
+        },
+        contextmenu(view, block, event) {
+          event.preventDefault();
+          const line = view.state.doc.lineAt(block.from).number;
+          const input = window.prompt(
+            `Breakpoint condition for line ${line} (leave empty to always pause)`,
+            findBreakpoint(view, line)?.condition ?? "",
+          );
+          if (input !== null) {
+            setLineBreakpoint(view, line, input.trim() || null);
+          }
+          return true;
+        },
+      },
+    });
+
+    // 편집으로 줄이 이동하면 새 줄 번호를 부모에 알림
+    const breakpointSync = EditorView.updateListener.of((update) => {
+      if (!update.docChanged) return;
+      const before = readBreakpoints(update.startState);
+      const after = readBreakpoints(update.state);
+      if (breakpointsKey(before) !== breakpointsKey(after)) {
+        onBreakpointsChangeRef.current?.(after);
+      }
+    });
+
+    return [
+      javascript(),
+      executingLineField,
+      breakpointField,
+      breakpointGutter,
+      breakpointSync,
+      customTheme,
+    ];
+  }, [hasBreakpoints]);
 
   // 코드 포매팅 핸들러
   const handleFormat = useCallback(async () => {
@@ -113,6 +291,16 @@ export function CodeEditor({
     }
   }, [code, onChange]);
 
+  // 외부 브레이크포인트 목록을 마커에 반영 (이미 같으면 건너뜀)
+  useEffect(() => {
+    const view = editorRef.current?.view;
+    if (!view || !hasBreakpoints) return;
+    const key = breakpointsKey(breakpoints);
+    if (breakpointsKey(readBreakpoints(view.state)) === key) return;
+
+    view.dispatch({ effects: setBreakpoints.of(breakpoints) });
+  }, [breakpoints, hasBreakpoints]);
+
   // 현재 실행 줄 업데이트
   useEffect(() => {
     const view = editorRef.current?.view;
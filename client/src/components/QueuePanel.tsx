@@ -1,12 +1,15 @@
 import type { QueueItem } from "@shared/schema";
-import { ArrowRight, Clock, Zap } from "lucide-react";
+import { ArrowRight, Clock, Film, Zap } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { LAYOUT_CONFIG } from "@/lib/layoutConfig";
 import { cn } from "@/lib/utils";
 
 interface QueuePanelProps {
   title: string;
-  type: "task" | "microtask";
+  type: "task" | "microtask" | "animation";
   items: QueueItem[];
+  /** 처리 중인 이벤트 루프 단계 (Node.js 모드) */
+  phase?: string | null;
   className?: string;
 }
 
@@ -29,10 +32,39 @@ const typeColors = {
     active:
       "bg-purple-100 dark:bg-purple-900/70 border-purple-400 dark:border-purple-500 shadow-purple-500/30",
   },
+  animation: {
+    bg: "bg-amber-50 dark:bg-amber-950/60",
+    border: "border-amber-300 dark:border-amber-700",
+    text: "text-amber-800 dark:text-amber-200",
+    icon: "text-amber-600 dark:text-amber-300",
+    header: "bg-amber-100/80 dark:bg-amber-900/50",
+    active:
+      "bg-amber-100 dark:bg-amber-900/70 border-amber-400 dark:border-amber-500 shadow-amber-500/30",
+  },
 };
 
-export function QueuePanel({ title, type, items, className }: QueuePanelProps) {
+const typeIcons = {
+  task: Clock,
+  microtask: Zap,
+  animation: Film,
+};
+
+const emptyMessages = {
+  task: "setTimeout callbacks appear here",
+  microtask:
+    "Promise reactions, queueMicrotask and MutationObserver callbacks appear here",
+  animation: "requestAnimationFrame callbacks appear here",
+};
+
+export function QueuePanel({
+  title,
+  type,
+  items,
+  phase,
+  className,
+}: QueuePanelProps) {
   const colors = typeColors[type];
+  const Icon = typeIcons[type];
 
   return (
     <div
@@ -49,12 +81,17 @@ export function QueuePanel({ title, type, items, className }: QueuePanelProps) {
         )}
       >
         <div className="flex items-center gap-2">
-          {type === "microtask" ? (
-            <Zap className={cn("w-4 h-4", colors.icon)} />
-          ) : (
-            <Clock className={cn("w-4 h-4", colors.icon)} />
-          )}
+          <Icon className={cn("w-4 h-4", colors.icon)} />
           <h2 className={cn("text-sm font-semibold", colors.text)}>{title}</h2>
+          {phase && (
+            <Badge
+              variant="outline"
+              className="font-mono text-[10px]"
+              data-testid="event-loop-phase"
+            >
+              phase: {phase}
+            </Badge>
+          )}
         </div>
         <span className="text-xs text-muted-foreground">
           {items.length} item{items.length !== 1 ? "s" : ""}
@@ -66,9 +103,7 @@ export function QueuePanel({ title, type, items, className }: QueuePanelProps) {
         {items.length === 0 ? (
           <div className="flex items-center justify-center h-full px-4">
             <p className="text-sm text-muted-foreground">
-              {type === "microtask"
-                ? "Promise callbacks appear here"
-                : "setTimeout callbacks appear here"}
+              {emptyMessages[type]}
             </p>
           </div>
         ) : (
@@ -95,14 +130,22 @@ export function QueuePanel({ title, type, items, className }: QueuePanelProps) {
               >
                 {/* 소스 타입 */}
                 <div className="flex items-center justify-between mb-2">
-                  <span
-                    className={cn(
-                      "text-xs font-semibold uppercase tracking-wide",
-                      colors.text,
+                  <div className="min-w-0">
+                    {item.category && (
+                      <span className="block text-[10px] text-muted-foreground">
+                        {item.category}
+                      </span>
                     )}
-                  >
-                    {item.source}
-                  </span>
+                    <span
+                      className={cn(
+                        "block text-xs font-semibold uppercase tracking-wide truncate",
+                        colors.text,
+                      )}
+                      title={item.source}
+                    >
+                      {item.source}
+                    </span>
+                  </div>
                   {index === 0 && (
                     <ArrowRight className="w-3 h-3 text-primary animate-pulse" />
                   )}
@@ -0,0 +1,162 @@
+import type { ScopeSnapshot, StackFrame } from "@shared/schema";
+import { ChevronDown, Layers } from "lucide-react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface ScopePanelProps {
+  /** 콜스택 프레임 (바닥부터), 프레임마다 스코프 체인을 가짐 */
+  frames: StackFrame[];
+  className?: string;
+}
+
+const SCOPE_LABELS: Record<ScopeSnapshot["type"], string> = {
+  block: "Block",
+  function: "Local",
+  closure: "Closure",
+  global: "Global",
+};
+
+const SCOPE_COLORS: Record<ScopeSnapshot["type"], string> = {
+  block: "text-slate-600 dark:text-slate-300",
+  function: "text-amber-700 dark:text-amber-300",
+  closure: "text-rose-600 dark:text-rose-300",
+  global: "text-muted-foreground",
+};
+
+/**
+ * 프레임별 스코프 체인
+ * 안쪽 스코프부터 전역까지, 클로저가 캡처한 스코프와 TDZ 바인딩을 표시
+ */
+export function ScopePanel({ frames, className }: ScopePanelProps) {
+  // 최상단 프레임은 기본으로 펼치고, 나머지는 클릭한 것만 펼침
+  const [toggledFrames, setToggledFrames] = useState<Set<string>>(new Set());
+  const topFrames = [...frames].reverse();
+
+  const toggleFrame = (frameId: string) => {
+    const next = new Set(toggledFrames);
+    if (next.has(frameId)) {
+      next.delete(frameId);
+    } else {
+      next.add(frameId);
+    }
+    setToggledFrames(next);
+  };
+
+  return (
+    <div
+      className={cn(
+        "h-full bg-card border rounded-lg overflow-hidden flex flex-col",
+        className,
+      )}
+    >
+      {/* Panel header */}
+      <div className="h-10 flex items-center justify-between px-4 border-b bg-amber-100/80 dark:bg-amber-900/50">
+        <div className="flex items-center gap-2">
+          <Layers className="w-4 h-4 text-amber-600 dark:text-amber-300" />
+          <h2 className="text-sm font-semibold text-amber-800 dark:text-amber-200">
+            Scope
+          </h2>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {frames.length} frame{frames.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {topFrames.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Scope chains appear while code is on the call stack
+          </p>
+        ) : (
+          topFrames.map((frame, index) => {
+            const isExpanded = (index === 0) !== toggledFrames.has(frame.id);
+
+            return (
+              <div
+                key={frame.id}
+                className="border rounded-lg"
+                data-testid={`scope-frame-${frame.id}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => toggleFrame(frame.id)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left"
+                  aria-expanded={isExpanded}
+                >
+                  <span className="text-xs font-semibold font-mono truncate">
+                    {frame.functionName}
+                  </span>
+                  <ChevronDown
+                    className={cn(
+                      "w-3.5 h-3.5 shrink-0 text-muted-foreground transition-transform",
+                      isExpanded && "rotate-180",
+                    )}
+                  />
+                </button>
+
+                {isExpanded && (
+                  <div className="border-t px-3 py-2 space-y-2">
+                    {(frame.scopes ?? []).map((scope) => (
+                      <ScopeSection key={scope.id} scope={scope} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ScopeSection({ scope }: { scope: ScopeSnapshot }) {
+  return (
+    <div>
+      <p
+        className={cn(
+          "text-[10px] uppercase tracking-wide font-semibold mb-1",
+          SCOPE_COLORS[scope.type],
+        )}
+      >
+        {SCOPE_LABELS[scope.type]}
+        {scope.name && (
+          <span className="normal-case font-mono"> ({scope.name})</span>
+        )}
+      </p>
+      {scope.bindings.length === 0 ? (
+        <span className="text-xs text-muted-foreground">no bindings</span>
+      ) : (
+        <div className="text-xs font-mono space-y-0.5">
+          {scope.bindings.map((binding) => {
+            // var는 초기화 전에도 undefined로 읽히므로 TDZ가 아님
+            const inTdz = !binding.initialized && binding.kind !== "var";
+
+            return (
+              <div key={binding.name} className="flex items-start gap-2">
+                <span className="text-muted-foreground shrink-0">
+                  {binding.kind}
+                </span>
+                <span className="shrink-0">{binding.name}:</span>
+                {inTdz ? (
+                  <Badge
+                    variant="outline"
+                    className="text-[10px] px-1 py-0 text-muted-foreground italic"
+                    title="Declared but not initialized yet (temporal dead zone)"
+                  >
+                    TDZ
+                  </Badge>
+                ) : (
+                  <span className="text-foreground break-all">
+                    {binding.value}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,19 @@
-import { Code2, Pause, Play, RotateCcw, SkipForward } from "lucide-react";
+import {
+  ArrowUpFromLine,
+  Clock,
+  Code2,
+  FastForward,
+  Pause,
+  Play,
+  Redo2,
+  RotateCcw,
+  SkipBack,
+  SkipForward,
+} from "lucide-react";
 import type { ReactNode } from "react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import type { RuntimeMode } from "@/lib/dynamic/types";
 import { Slider } from "@/components/ui/slider";
 import {
   Tooltip,
@@ -14,9 +26,23 @@ interface TopBarProps {
   isRunning: boolean;
   isPaused: boolean;
   speed: number;
+  /** 가상 시계의 현재 시각 (ms) */
+  virtualTime: number;
+  /** 지금까지 적용한 단계 수 (0 = 실행 전) */
+  stepIndex: number;
+  /** 실행 트레이스의 전체 단계 수 */
+  totalSteps: number;
+  /** 시뮬레이션 런타임 */
+  runtime: RuntimeMode;
+  onRuntimeChange: (runtime: RuntimeMode) => void;
   onPlay: () => void;
   onPause: () => void;
   onStep: () => void;
+  onStepBack: () => void;
+  onStepOver: () => void;
+  onStepOut: () => void;
+  onRunToNextTick: () => void;
+  onSeek: (index: number) => void;
   onReset: () => void;
   onSpeedChange: (speed: number) => void;
   exampleDrawer: ReactNode;
@@ -41,9 +67,19 @@ export function TopBar({
   isRunning,
   isPaused,
   speed,
+  virtualTime,
+  stepIndex,
+  totalSteps,
+  runtime,
+  onRuntimeChange,
   onPlay,
   onPause,
   onStep,
+  onStepBack,
+  onStepOver,
+  onStepOut,
+  onRunToNextTick,
+  onSeek,
   onReset,
   onSpeedChange,
   exampleDrawer,
@@ -60,9 +96,74 @@ export function TopBar({
           </div>
           {/* Example Modal 버튼 */}
           {exampleDrawer}
+
+          {/* 런타임 선택 */}
+          <div
+            className="flex items-center rounded-md border p-0.5"
+            role="radiogroup"
+            aria-label="Runtime"
+          >
+            {(
+              [
+                ["browser", "Browser"],
+                ["node", "Node.js"],
+              ] as const
+            ).map(([mode, label]) => (
+              <Button
+                key={mode}
+                size="sm"
+                variant={runtime === mode ? "secondary" : "ghost"}
+                onClick={() => onRuntimeChange(mode)}
+                disabled={isRunning}
+                role="radio"
+                aria-checked={runtime === mode}
+                data-testid={`button-runtime-${mode}`}
+                className="h-7 px-3 text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
         </div>
 
         <div className="flex items-center gap-6">
+          {/* 가상 시계 */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div
+                className="flex items-center gap-1.5 text-sm font-mono text-muted-foreground"
+                data-testid="virtual-time"
+              >
+                <Clock className="w-4 h-4" />
+                <span className="text-foreground">{virtualTime}ms</span>
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Virtual time</p>
+            </TooltipContent>
+          </Tooltip>
+
+          {/* 타임라인 스크러버 (임의의 단계로 이동) */}
+          <div className="flex items-center gap-2">
+            <Slider
+              value={[stepIndex]}
+              onValueChange={(values) => onSeek(values[0])}
+              min={0}
+              max={Math.max(totalSteps, 1)}
+              step={1}
+              disabled={totalSteps === 0}
+              className="w-40"
+              data-testid="slider-timeline"
+              aria-label="Timeline"
+            />
+            <span
+              className="text-xs font-mono text-muted-foreground whitespace-nowrap"
+              data-testid="text-step-position"
+            >
+              {stepIndex} / {totalSteps}
+            </span>
+          </div>
+
           {/* Control buttons with tooltips */}
           <div className="flex items-center gap-2">
             {/* Play/Pause button */}
@@ -90,7 +191,46 @@ export function TopBar({
               </TooltipContent>
             </Tooltip>
 
-            {/* Step forward button */}
+            {/* Step back button */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={onStepBack}
+                  disabled={stepIndex === 0}
+                  data-testid="button-step-back"
+                  aria-label="Step back"
+                  className="active:scale-95 transition-transform duration-100"
+                >
+                  <SkipBack className="w-5 h-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Step Back (←)</p>
+              </TooltipContent>
+            </Tooltip>
+
+            {/* Step over button */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={onStepOver}
+                  data-testid="button-step-over"
+                  aria-label="Step over"
+                  className="active:scale-95 transition-transform duration-100"
+                >
+                  <Redo2 className="w-5 h-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Step Over (F10)</p>
+              </TooltipContent>
+            </Tooltip>
+
+            {/* Step into button (한 단계씩, 함수 호출이면 안으로) */}
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -98,14 +238,52 @@ export function TopBar({
                   variant="ghost"
                   onClick={onStep}
                   data-testid="button-step"
-                  aria-label="Step forward"
+                  aria-label="Step into"
                   className="active:scale-95 transition-transform duration-100"
                 >
                   <SkipForward className="w-5 h-5" />
                 </Button>
               </TooltipTrigger>
               <TooltipContent>
-                <p>Step Forward (→)</p>
+                <p>Step Into (→ / F11)</p>
+              </TooltipContent>
+            </Tooltip>
+
+            {/* Step out button */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={onStepOut}
+                  data-testid="button-step-out"
+                  aria-label="Step out"
+                  className="active:scale-95 transition-transform duration-100"
+                >
+                  <ArrowUpFromLine className="w-5 h-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Step Out (Shift+F11)</p>
+              </TooltipContent>
+            </Tooltip>
+
+            {/* Run to next event-loop tick button */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={onRunToNextTick}
+                  data-testid="button-next-tick"
+                  aria-label="Run to next tick"
+                  className="active:scale-95 transition-transform duration-100"
+                >
+                  <FastForward className="w-5 h-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Run to Next Tick (N)</p>
               </TooltipContent>
             </Tooltip>
 
@@ -0,0 +1,78 @@
+import { MousePointerClick, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { UserEvent } from "@/lib/dynamic";
+
+interface UserEventBarProps {
+  /** 클릭할 수 있는 시뮬레이션 DOM 요소 선택자 */
+  targets: string[];
+  /** 예약된 사용자 입력 */
+  events: UserEvent[];
+  /** 현재 가상 시각 (새 입력이 발생할 시각) */
+  virtualTime: number;
+  disabled?: boolean;
+  onClick: (selector: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * 시뮬레이션 DOM에 사용자 클릭 주입
+ * 클릭은 현재 가상 시각에 태스크로 들어오며, 추가하면 실행 트레이스를 처음부터 다시 만듦
+ */
+export function UserEventBar({
+  targets,
+  events,
+  virtualTime,
+  disabled = false,
+  onClick,
+  onClear,
+}: UserEventBarProps) {
+  return (
+    <div className="border rounded-lg bg-card px-3 py-2 space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <MousePointerClick className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs font-semibold text-muted-foreground">
+          User click @ {virtualTime}ms
+        </span>
+        {targets.map((selector) => (
+          <Button
+            key={selector}
+            size="sm"
+            variant="outline"
+            className="h-6 px-2 font-mono text-xs"
+            disabled={disabled}
+            onClick={() => onClick(selector)}
+            data-testid={`button-user-click-${selector}`}
+          >
+            {selector}
+          </Button>
+        ))}
+      </div>
+
+      {events.length > 0 && (
+        <div className="flex items-center gap-2 flex-wrap">
+          {events.map((event, index) => (
+            <Badge
+              key={`${event.selector}-${event.time}-${index}`}
+              variant="secondary"
+              className="font-mono text-[10px]"
+            >
+              {event.type} {event.selector} @ {event.time}ms
+            </Badge>
+          ))}
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-5 w-5"
+            disabled={disabled}
+            onClick={onClear}
+            aria-label="Clear user clicks"
+            data-testid="button-clear-user-clicks"
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
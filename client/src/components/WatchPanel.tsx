@@ -0,0 +1,133 @@
+import { Eye, Plus, X } from "lucide-react";
+import { type FormEvent, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ExpressionResult } from "@/lib/dynamic";
+import { cn } from "@/lib/utils";
+
+interface WatchPanelProps {
+  /** 감시할 식과 현재 단계에서의 평가 결과 (실행 전이면 null) */
+  watches: { expression: string; result: ExpressionResult | null }[];
+  onAdd: (expression: string) => void;
+  onRemove: (index: number) => void;
+  className?: string;
+}
+
+/**
+ * Watch 식 목록
+ * 단계를 이동할 때마다 그 단계의 스코프에서 다시 평가 (호출/할당 같은 부작용은 거부)
+ */
+export function WatchPanel({
+  watches,
+  onAdd,
+  onRemove,
+  className,
+}: WatchPanelProps) {
+  const [draft, setDraft] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const expression = draft.trim();
+    if (!expression) return;
+
+    onAdd(expression);
+    setDraft("");
+  };
+
+  return (
+    <div
+      className={cn(
+        "h-full bg-card border rounded-lg overflow-hidden flex flex-col",
+        className,
+      )}
+    >
+      {/* Panel header */}
+      <div className="h-10 flex items-center justify-between px-4 border-b bg-sky-100/80 dark:bg-sky-900/50">
+        <div className="flex items-center gap-2">
+          <Eye className="w-4 h-4 text-sky-600 dark:text-sky-300" />
+          <h2 className="text-sm font-semibold text-sky-800 dark:text-sky-200">
+            Watch
+          </h2>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {watches.length} expression{watches.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+
+      {/* 식 추가 */}
+      <form
+        onSubmit={handleSubmit}
+        className="flex items-center gap-2 px-3 py-2 border-b"
+      >
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="count * 2"
+          className="h-7 font-mono text-xs"
+          data-testid="input-watch"
+          aria-label="Watch expression"
+        />
+        <Button
+          type="submit"
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 shrink-0"
+          aria-label="Add watch expression"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </form>
+
+      {/* 식마다 평가 결과 */}
+      <div className="flex-1 overflow-y-auto px-3 py-2 space-y-1">
+        {watches.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Add an expression to evaluate it at every step
+          </p>
+        ) : (
+          watches.map(({ expression, result }, index) => (
+            <div
+              key={expression}
+              className="group flex items-start gap-2 font-mono text-xs"
+              data-testid={`watch-${index}`}
+            >
+              <span className="text-sky-700 dark:text-sky-300 shrink-0">
+                {expression}:
+              </span>
+              <span
+                className={cn(
+                  "flex-1 min-w-0 break-all",
+                  result?.success
+                    ? "text-foreground"
+                    : "text-muted-foreground italic",
+                )}
+              >
+                {result === null
+                  ? "not available"
+                  : result.success
+                    ? result.display
+                    : `<${result.error}>`}
+              </span>
+              {result?.live && (
+                <span
+                  className="shrink-0 text-[10px] uppercase text-amber-600 dark:text-amber-300"
+                  title="Promises, DOM elements and other internal objects are not frozen per step; this shows their latest state"
+                >
+                  live
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => onRemove(index)}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                aria-label={`Remove ${expression}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
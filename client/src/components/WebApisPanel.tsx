@@ -0,0 +1,96 @@
+import type { WebApiItem } from "@shared/schema";
+import { Globe, Hourglass } from "lucide-react";
+import { LAYOUT_CONFIG } from "@/lib/layoutConfig";
+import { cn } from "@/lib/utils";
+
+interface WebApisPanelProps {
+  title: string;
+  items: WebApiItem[];
+  className?: string;
+}
+
+/**
+ * 호스트(브라우저/libuv)가 들고 있는 타이머와 네트워크 요청
+ * 남은 시간이 0이 되면 태스크 큐로 이동하며 패널에서 사라짐
+ */
+export function WebApisPanel({ title, items, className }: WebApisPanelProps) {
+  return (
+    <div
+      className={cn(
+        "h-full bg-card border rounded-lg overflow-hidden flex flex-col",
+        className,
+      )}
+    >
+      {/* Panel header */}
+      <div className="h-10 flex items-center justify-between px-4 border-b bg-teal-100/80 dark:bg-teal-900/50">
+        <div className="flex items-center gap-2">
+          <Globe className="w-4 h-4 text-teal-600 dark:text-teal-300" />
+          <h2 className="text-sm font-semibold text-teal-800 dark:text-teal-200">
+            {title}
+          </h2>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {items.length} pending
+        </span>
+      </div>
+
+      {/* 대기 중인 항목 - 만료 순서대로 수평 배치 */}
+      <div className="flex-1 overflow-x-auto overflow-y-hidden">
+        {items.length === 0 ? (
+          <div className="flex items-center justify-center h-full px-4">
+            <p className="text-sm text-muted-foreground">
+              Timers and fetch requests wait here
+            </p>
+          </div>
+        ) : (
+          <div
+            className="flex items-center h-full px-3 gap-3"
+            style={{ minWidth: "max-content" }}
+          >
+            {items.map((item) => {
+              const total = item.dueTime - item.startedAt;
+              const progress =
+                total > 0 ? ((total - item.remaining) / total) * 100 : 100;
+
+              return (
+                <div
+                  key={item.id}
+                  className="shrink-0 border rounded-lg p-3 bg-card border-teal-300 dark:border-teal-700 animate-in fade-in duration-300"
+                  style={{
+                    width: LAYOUT_CONFIG.queue.itemWidth,
+                    minWidth: LAYOUT_CONFIG.queue.itemMinWidth,
+                  }}
+                  data-testid={`web-api-item-${item.timerId}`}
+                >
+                  {/* 소스 타입 + 남은 시간 */}
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-teal-800 dark:text-teal-200">
+                      {item.source}
+                    </span>
+                    <span className="flex items-center gap-1 text-[10px] font-mono text-muted-foreground">
+                      <Hourglass className="w-3 h-3" />
+                      {item.remaining}ms
+                    </span>
+                  </div>
+
+                  {/* 콜백 미리보기 */}
+                  <div className="text-xs font-mono text-foreground truncate bg-muted/50 px-2 py-1.5 rounded">
+                    {item.callback}
+                  </div>
+
+                  {/* 경과 진행률 */}
+                  <div className="h-1 mt-2 rounded bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-teal-500 transition-all duration-300"
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,18 +3,43 @@
  * JavaScript AST를 해석하고 실행 트레이스를 생성
  */
 
+import type { AgentState } from "@shared/schema";
 import type { Node } from "acorn";
 import { BuiltinHandlers } from "./BuiltinHandlers";
+import { CodeParser } from "./CodeParser";
 import { EventLoopSimulator } from "./EventLoopSimulator";
 import { ExecutionContext } from "./ExecutionContext";
+import { MockNetwork } from "./MockNetwork";
+import { SimulatedDom } from "./SimulatedDom";
+import { structuredCloneValue } from "./StructuredClone";
 import type {
+  AsyncActivation,
+  AwaitSuspension,
   Closure,
+  ClassFieldDefinition,
+  Evaluation,
   ExecutionStep,
+  GeneratorReturn,
   InterpreterConfig,
+  MutationObserverOptions,
+  ScheduledTask,
+  Scope,
+  SimulatedClass,
+  SimulatedElement,
+  SimulatedEvent,
+  SimulatedGenerator,
   SimulatedMessageChannel,
   SimulatedMessagePort,
+  SimulatedMutationObserver,
+  SimulatedPromise,
+  SimulatedResponse,
+  SimulatedWorker,
+  SimulatedWorkerScope,
+  VariableKind,
+  YieldSuspension,
 } from "./types";
 import {
+  DataCloneError,
   DEFAULT_INTERPRETER_CONFIG,
   ExecutionLimitError,
   RuntimeError,
@@ -24,6 +49,42 @@ import { nanoid } from "nanoid";
 // 타입 헬퍼: Node를 any로 캐스팅
 type AnyNode = Node & Record<string, unknown>;
 
+/** 콜백 프레임을 시각화하는 배열 고차 함수 */
+const ARRAY_CALLBACK_METHODS = [
+  "forEach",
+  "map",
+  "filter",
+  "reduce",
+  "find",
+  "some",
+  "every",
+  "sort",
+];
+
+/** 부작용 없는 식 평가에서 거부하는 노드 (호출, 할당, 비동기 등) */
+const SIDE_EFFECT_NODE_TYPES = new Set([
+  "CallExpression",
+  "NewExpression",
+  "AssignmentExpression",
+  "UpdateExpression",
+  "AwaitExpression",
+  "YieldExpression",
+  "TaggedTemplateExpression",
+  "FunctionExpression",
+  "ArrowFunctionExpression",
+  "ClassExpression",
+]);
+
+/** 할당하면 DOM 변경이 되는 요소 속성 (MutationObserver 통지 대상) */
+const OBSERVED_ELEMENT_PROPERTIES = new Set(["id", "className", "textContent"]);
+
+/** 메인 스레드가 관리하는 워커 에이전트 */
+interface WorkerAgent {
+  handle: SimulatedWorker;
+  interpreter: ASTInterpreter;
+  terminated: boolean;
+}
+
 export class ASTInterpreter {
   private context: ExecutionContext;
   private eventLoop: EventLoopSimulator;
@@ -46,24 +107,96 @@ export class ASTInterpreter {
   private returnValue: unknown = undefined;
   private hasReturned = false;
 
+  /** break/continue 플래그 (레이블이 없으면 label은 null) */
+  private pendingJump: {
+    type: "break" | "continue";
+    label: string | null;
+  } | null = null;
+
+  /** 다음에 평가할 루프 문에 붙은 레이블 목록 */
+  private pendingLabels: string[] = [];
+
   /** MessageChannel 저장소 */
   private messageChannels: Map<string, SimulatedMessageChannel> = new Map();
 
+  /** fetch() 모의 네트워크 */
+  private network: MockNetwork;
+
+  /** 시뮬레이션 DOM (브라우저 전용) */
+  private dom: SimulatedDom;
+
   /** 현재 async 함수 실행 컨텍스트 (await 처리용) */
-  private currentAsyncContext: {
-    isAsync: boolean;
-    remainingStatements: Node[];
-    awaitedPromise?: import("./types").SimulatedPromise;
-  } | null = null;
+  private currentAsyncContext: AsyncActivation | null = null;
+
+  /** 내장 전역 값 (Error 등, 사용자 변수가 없을 때만 사용) */
+  private builtinGlobals: Map<string, unknown>;
+
+  /** 이 워커를 만든 메인 스레드 인터프리터 (메인 스레드면 null) */
+  private host: ASTInterpreter | null;
+
+  /** 에이전트 이름 (메인 스레드는 "main") */
+  private agentName: string;
+
+  /** 메인 스레드가 만든 워커 에이전트 */
+  private workers: WorkerAgent[] = [];
+
+  /** 워커 전역 객체 self (워커 에이전트 전용) */
+  private workerScope: SimulatedWorkerScope | null = null;
+
+  /** message 이벤트 리스너 (Worker 핸들, self, MessagePort별) */
+  private messageListeners: Map<object, (Closure | "onmessage")[]> = new Map();
+
+  /** Worker 핸들의 error 이벤트 리스너 (addEventListener('error')) */
+  private workerErrorListeners: Map<SimulatedWorker, Closure[]> = new Map();
+
+  /** MutationObserver 통지 마이크로태스크가 이미 큐에 있는지 (한 번만 큐잉) */
+  private mutationMicrotaskQueued = false;
 
-  constructor(config: Partial<InterpreterConfig> = {}) {
+  /** 부작용 없는 식 평가 중인지 (단계를 기록하지 않고 호출/할당을 거부) */
+  private inspecting = false;
+
+  /** 식 평가 중 스냅샷에 고정되지 않은 내부 객체의 속성을 읽었는지 */
+  private readLiveObject = false;
+
+  /** 피호출 함수의 파라미터 바인딩 후 기록할 호출 단계 설명 */
+  private pendingCallStep: string | null = null;
+
+  constructor(
+    config: Partial<InterpreterConfig> = {},
+    host: ASTInterpreter | null = null,
+    agentName = "main",
+  ) {
+    this.host = host;
+    this.agentName = agentName;
     this.config = { ...DEFAULT_INTERPRETER_CONFIG, ...config };
     this.context = new ExecutionContext();
-    this.eventLoop = new EventLoopSimulator();
+    this.eventLoop = new EventLoopSimulator(this.config.runtime);
+    this.network = new MockNetwork(this.config.network);
+    this.dom = new SimulatedDom();
     this.builtins = new BuiltinHandlers({
       eventLoop: this.eventLoop,
       executeClosure: this.executeClosure.bind(this),
+      invokeCallback: this.invokeMicrotaskCallback.bind(this),
+      createError: (name, args) =>
+        this.instantiateClass(
+          this.builtinGlobals.get(name) as SimulatedClass,
+          args,
+        ),
+      recordStep: this.recordStep.bind(this),
     });
+    this.builtinGlobals = this.createErrorClasses();
+
+    if (host) {
+      // 워커에는 DOM이 없고 전역 객체가 self
+      this.workerScope = {
+        __isSimulatedWorkerScope: true,
+        name: agentName,
+        onmessage: null,
+      };
+      this.builtinGlobals.set("self", this.workerScope);
+    } else if (this.config.runtime === "browser") {
+      this.builtinGlobals.set("document", this.dom.document);
+    }
   }
 
   /**
@@ -74,20 +207,12 @@ export class ASTInterpreter {
     this.sourceMap = sourceMap;
 
     try {
-      // 전역 스코프 진입
-      this.eventLoop.pushToCallStack({
-        functionName: "global",
-        location: "script",
-        variables: {},
-      });
-
-      // 프로그램 실행
-      this.evaluateNode(ast);
-
-      // 전역 스코프 종료
-      this.eventLoop.popFromCallStack();
+      this.runScript(ast);
       this.recordStep("동기 코드 실행 완료");
 
+      // UI에서 주입한 사용자 입력을 지정 시각의 태스크로 예약
+      this.scheduleUserEvents();
+
       // 이벤트 루프 실행
       this.runEventLoop();
 
@@ -97,100 +222,324 @@ export class ASTInterpreter {
       if (error instanceof Error) {
         this.eventLoop.setDescription(`에러: ${error.message}`);
         this.steps.push(this.eventLoop.getSnapshot());
+      } else if (this.isThrownError(error)) {
+        this.reportUncaughtError(error.error);
       }
       return this.steps;
     }
   }
 
+  /**
+   * 단계별 스코프 복사본에서 식 평가 (조건부 브레이크포인트 등)
+   * 호출, 할당처럼 부작용이 있을 수 있는 식은 RuntimeError
+   * live: 스냅샷에 고정되지 않은 내부 객체를 읽었는지 (값이 최신 상태일 수 있음)
+   */
+  evaluateInScope(
+    expression: string,
+    scope: Scope,
+  ): { value: unknown; live: boolean } {
+    const parsed = new CodeParser().parse(expression);
+    const body = (parsed.ast as AnyNode | undefined)?.body as
+      | AnyNode[]
+      | undefined;
+    if (
+      !parsed.success ||
+      body?.length !== 1 ||
+      body[0].type !== "ExpressionStatement"
+    ) {
+      throw new RuntimeError(
+        parsed.errors[0]?.message ?? "식 하나만 평가할 수 있습니다",
+      );
+    }
+
+    const previousScope = this.context.getCurrentScope();
+    const { hasReturned, returnValue } = this;
+    this.context.restoreScope(scope);
+    this.hasReturned = false;
+    this.inspecting = true;
+    this.readLiveObject = false;
+
+    try {
+      const value = this.runToCompletion(
+        this.evaluateNode(body[0].expression as Node),
+      );
+      return {
+        value,
+        live: this.readLiveObject || this.context.containsLiveObject(value),
+      };
+    } catch (e) {
+      // 식 안에서 던져진 에러 (null.x 등)는 메시지로 변환
+      if (this.isThrownError(e)) {
+        throw new RuntimeError(this.stringify(e.error));
+      }
+      throw e;
+    } finally {
+      this.inspecting = false;
+      this.hasReturned = hasReturned;
+      this.returnValue = returnValue;
+      this.context.restoreScope(previousScope);
+    }
+  }
+
+  /**
+   * 식 평가 결과를 표시용 문자열로 변환
+   */
+  formatValue(value: unknown): string {
+    return this.builtins.formatValue(value);
+  }
+
+  /**
+   * 스크립트 전역 코드 실행
+   */
+  private runScript(ast: Node): void {
+    // 전역 스코프 진입
+    this.eventLoop.pushToCallStack({
+      functionName: "global",
+      location: "script",
+      variables: {},
+    });
+
+    // 프로그램 실행 (top-level await 지원을 위해 async 실행 단위로 처리)
+    const program: AsyncActivation = {
+      evaluation: this.evaluateNode(ast),
+      scope: this.context.getGlobalScope(),
+      promise: this.builtins.createPendingPromise(),
+      name: "global",
+    };
+    program.promise.onRejected.push({
+      callback: {
+        functionNode: ast,
+        capturedScope: this.context.getGlobalScope(),
+        name: "__uncaught__",
+      },
+      internalHandler: (reason) => this.reportUncaughtError(reason),
+    });
+    this.resumeActivation(program, { value: undefined });
+
+    // 전역 스코프 종료
+    this.eventLoop.popFromCallStack();
+  }
+
   /**
    * 이벤트 루프 실행
    */
   private runEventLoop(): void {
+    if (this.config.runtime === "node") {
+      this.runNodeEventLoop();
+      return;
+    }
+
     let loopCount = 0;
     const maxLoops = 100;
 
     console.log(`[EventLoop] 시작 - 마이크로태스크: ${this.eventLoop.getMicrotaskCount()}, 태스크: ${this.eventLoop.getTaskCount()}`);
 
-    while (this.eventLoop.hasPendingTasks() && loopCount < maxLoops) {
+    // 워커는 각자 이벤트 루프를 돌며, 가상 시각이 가장 이른 에이전트가 먼저 한 바퀴 실행
+    for (
+      let agent = this.nextAgent();
+      agent && loopCount < maxLoops;
+      agent = this.nextAgent()
+    ) {
       loopCount++;
+      agent.runEventLoopTurn();
+    }
 
-      // 1. 마이크로태스크 큐 전체 드레인
-      while (!this.eventLoop.isMicrotaskQueueEmpty()) {
-        const microtask = this.eventLoop.popMicrotask();
-        if (microtask) {
-          // internalCallback이 있으면 내부 처리용 (Promise.all/race)
-          if (microtask.internalCallback) {
-            console.log(`[EventLoop] internalCallback 실행: ${microtask.source}`);
-            microtask.internalCallback();
-            continue;
-          }
+    if (loopCount >= maxLoops) {
+      throw new ExecutionLimitError("이벤트 루프 반복 횟수 초과");
+    }
 
-          console.log(`[EventLoop] 마이크로태스크 시작: ${microtask.source}`);
-          console.log(`  - 큐 남은 개수: ${this.eventLoop.getMicrotaskCount()}`);
-          console.log(`  - hasReturned(before): ${this.hasReturned}`);
+    this.recordStep("실행 완료");
+  }
 
-          this.recordStep(`마이크로태스크 실행: ${microtask.source}`);
-          this.eventLoop.pushToCallStack({
-            functionName: `${microtask.source} callback`,
-            location: microtask.source,
-          });
+  /**
+   * 브라우저 이벤트 루프 한 바퀴
+   */
+  private runEventLoopTurn(): void {
+    // 0. 할 일이 없으면 가상 시계를 다음 타이머 만료 또는 프레임 경계로 이동
+    if (
+      this.eventLoop.isTaskQueueEmpty() &&
+      this.eventLoop.isMicrotaskQueueEmpty()
+    ) {
+      this.advanceIdleClock();
+    }
 
-          // resolvedValue가 있으면 콜백 인자로 전달
-          const args =
-            microtask.resolvedValue !== undefined
-              ? [microtask.resolvedValue]
-              : [];
+    // 1. 마이크로태스크 큐 전체 드레인
+    this.drainMicrotasks();
 
-          // Promise 콜백 실행 시 에러 처리
-          try {
-            const result = this.executeClosure(microtask.callback, args);
+    // 2. 만료된 타이머를 태스크 큐로 이동
+    this.flushDueTimers();
 
-            console.log(`  - hasReturned(after): ${this.hasReturned}`);
+    // 3. 태스크 큐에서 하나 실행 후 마이크로태스크 체크포인트
+    const task = this.eventLoop.popTask();
+    if (task) {
+      this.runTask(task);
+      this.drainMicrotasks();
+    }
 
-            // Promise 체이닝: 콜백 실행 결과로 연결된 Promise resolve
-            if (microtask.chainedPromise) {
-              this.builtins.resolvePromise(microtask.chainedPromise, result);
-            }
-          } catch (e) {
-            console.log(`  - 예외 발생:`, e);
-            // ThrownError인 경우 Promise 체인으로 reject 전파
-            if (this.isThrownError(e) && microtask.chainedPromise) {
-              this.builtins.rejectPromise(microtask.chainedPromise, e.error);
-            } else {
-              // 인터프리터 내부 에러는 다시 throw
-              throw e;
-            }
-          }
+    // 4. 프레임 경계를 지났으면 렌더링 기회 (워커에는 렌더링 단계가 없음)
+    if (!this.host && this.eventLoop.isRenderingOpportunity()) {
+      this.runRenderingOpportunity();
+    }
+  }
 
-          this.eventLoop.popFromCallStack();
-          this.recordStep(`마이크로태스크 완료: ${microtask.source}`);
-          console.log(`[EventLoop] 마이크로태스크 완료: ${microtask.source}`);
-        }
+  /**
+   * 다음에 이벤트 루프를 돌릴 에이전트 (같은 시각이면 메인 스레드 우선)
+   */
+  private nextAgent(): ASTInterpreter | null {
+    let next: ASTInterpreter | null = null;
+    let nextTime = Number.POSITIVE_INFINITY;
+
+    const agents = [
+      this,
+      ...this.workers
+        .filter((worker) => !worker.terminated)
+        .map((worker) => worker.interpreter),
+    ];
+    for (const agent of agents) {
+      const readyTime = agent.getReadyTime();
+      if (readyTime !== null && readyTime < nextTime) {
+        next = agent;
+        nextTime = readyTime;
       }
+    }
 
-      // 2. 태스크 큐에서 하나 실행
-      if (!this.eventLoop.isTaskQueueEmpty()) {
-        const task = this.eventLoop.popTask();
-        if (task) {
-          // 시간 진행 시뮬레이션
-          if (task.delay) {
-            this.eventLoop.advanceTime(task.delay);
-          }
+    return next;
+  }
 
-          this.recordStep(`태스크 실행: ${task.source}`);
-          this.eventLoop.pushToCallStack({
-            functionName: `${task.source} callback`,
-            location: task.source,
-          });
+  /**
+   * 이 에이전트가 다음에 할 일이 생기는 가상 시각 (할 일이 없으면 null)
+   */
+  private getReadyTime(): number | null {
+    const now = this.eventLoop.getCurrentTime();
+    if (
+      !this.eventLoop.isTaskQueueEmpty() ||
+      !this.eventLoop.isMicrotaskQueueEmpty()
+    ) {
+      return now;
+    }
+
+    const candidates = [this.eventLoop.getNextTimerDueTime()];
+    if (this.eventLoop.hasPendingAnimationFrames()) {
+      candidates.push(this.eventLoop.getNextFrameTime());
+    }
+    const times = candidates.filter((time): time is number => time !== null);
+    return times.length > 0 ? Math.max(now, Math.min(...times)) : null;
+  }
+
+  /**
+   * 렌더링 기회 처리 (브라우저)
+   * rAF 콜백 실행 → 스타일 계산/레이아웃/페인트 순으로 진행
+   * 그릴 것이 없는 프레임은 단계를 기록하지 않고 넘어감
+   */
+  private runRenderingOpportunity(): void {
+    const { frame, frameTime, dropped } = this.eventLoop.beginFrame();
+    if (!this.eventLoop.hasPendingAnimationFrames()) return;
+
+    this.recordStep(
+      dropped > 0
+        ? `──── 프레임 #${frame} (${frameTime}ms) 렌더링 기회 ──── 긴 태스크로 ${dropped}개 프레임 드롭`
+        : `──── 프레임 #${frame} (${frameTime}ms) 렌더링 기회 ────`,
+    );
+
+    // 이 프레임 시작 시점까지 등록된 rAF 콜백을 한꺼번에 실행
+    for (const callback of this.eventLoop.takeAnimationFrames()) {
+      this.runTask(callback, [frameTime], "애니메이션 콜백");
+      this.drainMicrotasks();
+    }
+
+    this.recordStep(`프레임 #${frame}: 스타일 계산 → 레이아웃 → 페인트`);
+  }
+
+  /**
+   * 실행할 태스크가 없을 때 가상 시계 이동
+   * 대기 중인 rAF가 있으면 다음 프레임 경계와 다음 타이머 중 빠른 쪽으로 이동
+   */
+  private advanceIdleClock(): void {
+    const nextTimer = this.eventLoop.getNextTimerDueTime();
+    const nextFrame = this.eventLoop.hasPendingAnimationFrames()
+      ? this.eventLoop.getNextFrameTime()
+      : null;
+
+    if (nextFrame !== null && (nextTimer === null || nextFrame <= nextTimer)) {
+      this.eventLoop.advanceToNextFrame();
+    } else if (nextTimer !== null) {
+      this.eventLoop.advanceToNextTimer();
+    }
+  }
+
+  /**
+   * Node.js 이벤트 루프 실행 (libuv 단계)
+   * timers → pending callbacks → poll → check → close callbacks 순으로 반복하며,
+   * 콜백 하나가 끝날 때마다 nextTick 큐와 마이크로태스크 큐를 비움
+   */
+  private runNodeEventLoop(): void {
+    let loopCount = 0;
+    const maxLoops = 100;
+
+    // 메인 모듈 실행 직후 nextTick/마이크로태스크 처리
+    this.drainNodeMicrotasks();
+
+    while (this.eventLoop.hasPendingTasks() && loopCount < maxLoops) {
+      loopCount++;
+
+      // 1. timers: 만료된 setTimeout/setInterval 콜백
+      this.eventLoop.setPhase("timers");
+      this.flushDueTimers();
+      if (
+        this.eventLoop.isTaskQueueEmpty() &&
+        this.eventLoop.hasPendingTimers() &&
+        this.eventLoop.hasPendingImmediates()
+      ) {
+        // 실제 Node.js에서는 루프 진입까지 걸린 시간에 따라 순서가 달라질 수 있음
+        this.recordStep(
+          "timers 단계: 아직 만료된 타이머 없음 (setTimeout 0도 최소 1ms) → check 단계의 setImmediate가 먼저 실행",
+        );
+      }
+      for (
+        let task = this.eventLoop.popTask();
+        task;
+        task = this.eventLoop.popTask()
+      ) {
+        this.runTask(task);
+        this.drainNodeMicrotasks();
+      }
 
-          this.executeClosure(task.callback, []);
+      // 2. pending callbacks: 지연된 I/O 콜백 (시뮬레이터에는 I/O가 없음)
+      this.eventLoop.setPhase("pending callbacks");
 
-          this.eventLoop.popFromCallStack();
-          this.recordStep(`태스크 완료: ${task.source}`);
+      // 3. poll: 실행할 setImmediate가 없으면 다음 타이머까지 대기
+      this.eventLoop.setPhase("poll");
+      if (
+        !this.eventLoop.hasPendingImmediates() &&
+        this.eventLoop.isTaskQueueEmpty() &&
+        this.eventLoop.advanceToNextTimer() !== null
+      ) {
+        this.recordStep(
+          `poll 단계: 다음 타이머까지 대기 → 가상 시간 ${this.eventLoop.getCurrentTime()}ms`,
+        );
+      } else {
+        // 대기하지 않아도 루프 한 바퀴에 시간이 흐름 (최대 1ms, 다음 타이머를 넘지 않음)
+        // setImmediate가 계속 이어져도 다음 반복의 timers 단계에서 최소 1ms 타이머가 만료됨
+        const nextTimer = this.eventLoop.getNextTimerDueTime();
+        const now = this.eventLoop.getCurrentTime();
+        if (nextTimer !== null && nextTimer > now) {
+          this.eventLoop.spendTime(Math.min(1, nextTimer - now));
         }
       }
+
+      // 4. check: 단계 시작 시점에 등록된 setImmediate 콜백
+      this.eventLoop.setPhase("check");
+      for (const immediate of this.eventLoop.takeImmediates()) {
+        this.runTask(immediate);
+        this.drainNodeMicrotasks();
+      }
+
+      // 5. close callbacks: 'close' 이벤트 콜백 (시뮬레이터에는 핸들이 없음)
+      this.eventLoop.setPhase("close callbacks");
     }
 
+    this.eventLoop.setPhase(null);
+
     if (loopCount >= maxLoops) {
       throw new ExecutionLimitError("이벤트 루프 반복 횟수 초과");
     }
@@ -198,29 +547,219 @@ export class ASTInterpreter {
     this.recordStep("실행 완료");
   }
 
+  /**
+   * Node.js 마이크로태스크 처리
+   * nextTick 큐를 먼저 모두 비운 뒤 Promise 마이크로태스크를 비우고,
+   * 그 사이 새 nextTick이 생기면 반복
+   */
+  private drainNodeMicrotasks(): void {
+    while (
+      !this.eventLoop.isNextTickQueueEmpty() ||
+      !this.eventLoop.isMicrotaskQueueEmpty()
+    ) {
+      for (
+        let tick = this.eventLoop.popNextTick();
+        tick;
+        tick = this.eventLoop.popNextTick()
+      ) {
+        this.runMicrotask(tick);
+      }
+
+      this.drainMicrotasks();
+    }
+  }
+
+  /**
+   * 마이크로태스크 큐 전체 드레인
+   */
+  private drainMicrotasks(): void {
+    for (
+      let microtask = this.eventLoop.popMicrotask();
+      microtask;
+      microtask = this.eventLoop.popMicrotask()
+    ) {
+      this.runMicrotask(microtask);
+    }
+  }
+
+  /**
+   * 마이크로태스크 하나 실행
+   */
+  private runMicrotask(microtask: ScheduledTask): void {
+    // internalCallback이 있으면 내부 처리용 (Promise.all/race)
+    if (microtask.internalCallback) {
+      console.log(`[EventLoop] internalCallback 실행: ${microtask.source}`);
+      microtask.internalCallback();
+      return;
+    }
+
+    console.log(`[EventLoop] 마이크로태스크 시작: ${microtask.source}`);
+    console.log(`  - 큐 남은 개수: ${this.eventLoop.getMicrotaskCount()}`);
+    console.log(`  - hasReturned(before): ${this.hasReturned}`);
+
+    this.recordStep(`마이크로태스크 실행: ${microtask.source}`);
+    this.eventLoop.pushToCallStack({
+      functionName: `${microtask.source} callback`,
+      location: microtask.source,
+    });
+
+    // resolvedValue가 있으면 콜백 인자로 전달
+    const args =
+      microtask.resolvedValue !== undefined ? [microtask.resolvedValue] : [];
+
+    // Promise 콜백 실행 시 에러 처리
+    try {
+      const result = this.executeClosure(microtask.callback, args);
+
+      console.log(`  - hasReturned(after): ${this.hasReturned}`);
+
+      // Promise 체이닝: 콜백 실행 결과로 연결된 Promise resolve
+      if (microtask.chainedPromise) {
+        this.builtins.resolvePromise(microtask.chainedPromise, result);
+      }
+    } catch (e) {
+      console.log(`  - 예외 발생:`, e);
+      // ThrownError인 경우 Promise 체인으로 reject 전파
+      if (this.isThrownError(e) && microtask.chainedPromise) {
+        this.builtins.rejectPromise(microtask.chainedPromise, e.error);
+      } else if (this.isThrownError(e)) {
+        // queueMicrotask 등 Promise와 무관한 콜백의 에러는 보고 후 계속 진행
+        this.eventLoop.popFromCallStack();
+        this.reportUncaughtError(e.error);
+        return;
+      } else {
+        // 인터프리터 내부 에러는 다시 throw
+        throw e;
+      }
+    }
+
+    this.eventLoop.popFromCallStack();
+    this.recordStep(`마이크로태스크 완료: ${microtask.source}`);
+    console.log(`[EventLoop] 마이크로태스크 완료: ${microtask.source}`);
+  }
+
+  /**
+   * 태스크 하나 실행 (타이머, setImmediate, rAF 콜백 등)
+   */
+  private runTask(
+    task: ScheduledTask,
+    args: unknown[] = task.args ?? [],
+    kind = "태스크",
+  ): void {
+    // 내부 태스크 (fetch 응답 도착 등)는 사용자 콜백 프레임 없이 실행
+    if (task.internalCallback) {
+      task.internalCallback();
+      return;
+    }
+
+    this.recordStep(`${kind} 실행: ${task.source}`);
+    this.eventLoop.pushToCallStack({
+      functionName: `${task.source} callback`,
+      location: task.source,
+    });
+
+    let thrown: import("./types").ThrownError | null = null;
+    try {
+      this.executeClosure(task.callback, args);
+    } catch (e) {
+      // 처리되지 않은 에러는 이 태스크만 끝내고 이벤트 루프는 계속 진행
+      if (!this.isThrownError(e)) {
+        throw e;
+      }
+      thrown = e;
+    } finally {
+      this.eventLoop.popFromCallStack();
+    }
+
+    if (thrown) {
+      this.reportUncaughtError(thrown.error);
+    } else {
+      this.recordStep(`${kind} 완료: ${task.source}`);
+    }
+
+    if (task.repeat) {
+      this.rearmInterval(task);
+    }
+  }
+
   /**
    * 클로저 실행
+   * async 함수는 첫 await까지 실행 후 결과 Promise를 반환
    */
-  private executeClosure(closure: Closure, args: unknown[]): unknown {
+  private executeClosure(
+    closure: Closure,
+    args: unknown[],
+    thisArg?: unknown,
+  ): unknown {
     console.log(`[Closure] 시작 - name=${closure.name}`);
 
+    // bind()된 함수: 고정된 this와 인자로 원래 함수 실행
+    if (closure.boundTarget) {
+      return this.executeClosure(
+        closure.boundTarget,
+        [...(closure.boundArgs ?? []), ...args],
+        closure.boundThis,
+      );
+    }
+
+    if (closure.isGenerator) {
+      return this.createGenerator(closure, args, thisArg);
+    }
+
+    if (closure.isAsync) {
+      const promise = this.startAsyncFunction(closure, args, thisArg);
+      console.log(`[Closure] 종료(async) - name=${closure.name}`);
+      return promise;
+    }
+
+    // 호출자 스코프 저장 (클로저 실행 후 복원)
+    const callerScope = this.context.getCurrentScope();
+    const outerAsyncContext = this.currentAsyncContext;
+    this.currentAsyncContext = null;
+
+    try {
+      const result = this.runToCompletion(
+        this.evaluateFunctionBody(closure, args, thisArg),
+      );
+      console.log(`[Closure] 종료 - name=${closure.name}`);
+      return result;
+    } finally {
+      this.context.restoreScope(callerScope);
+      this.currentAsyncContext = outerAsyncContext;
+    }
+  }
+
+  /**
+   * 함수 본문 평가
+   * 파라미터 바인딩 후 본문을 실행하고 반환값을 돌려줌
+   */
+  private *evaluateFunctionBody(
+    closure: Closure,
+    args: unknown[],
+    thisArg?: unknown,
+  ): Evaluation {
     // 클로저의 캡처된 스코프로 새 함수 스코프 생성
-    this.context.enterClosureScope(closure);
+    this.context.enterClosureScope(closure, thisArg);
 
     // 파라미터 바인딩
     const funcNode = closure.functionNode as {
-      params?: Array<{ type: string; name?: string }>;
+      params?: Node[];
       body?: Node;
-      async?: boolean;
     };
 
     if (funcNode.params) {
       for (let i = 0; i < funcNode.params.length; i++) {
         const param = funcNode.params[i];
-        if (param.type === "Identifier" && param.name) {
-          this.context.declareVariable(param.name, "let");
-          this.context.initializeVariable(param.name, args[i]);
+
+        // 나머지 매개변수 (...rest)는 남은 인자를 배열로 받음
+        if (param.type === "RestElement") {
+          const rest = param as unknown as { argument: Node };
+          yield* this.bindPattern(rest.argument, args.slice(i), "let");
+          break;
         }
+
+        // 기본값(AssignmentPattern)과 구조 분해 매개변수 포함
+        yield* this.bindPattern(param, args[i], "let");
       }
     }
 
@@ -228,198 +767,371 @@ export class ASTInterpreter {
     this.hasReturned = false;
     this.returnValue = undefined;
 
-    // async 함수의 경우 특별 처리
-    if (closure.isAsync && funcNode.body) {
-      const result = this.executeAsyncFunctionBody(funcNode.body as Node);
-      this.context.exitScope();
-      console.log(`[Closure] 종료(async) - name=${closure.name}`);
-      return result;
+    // 호출 단계는 파라미터가 바인딩된 피호출 함수 스코프에서 기록
+    // (블록 본문은 let/const를 TDZ로 바인딩한 뒤 evaluateBlockStatement에서 기록)
+    let result: unknown;
+    if (funcNode.body?.type === "BlockStatement") {
+      yield* this.evaluateNode(funcNode.body);
+      result = this.returnValue;
+    } else if (funcNode.body) {
+      // 화살표 함수의 표현식 본문은 그 값이 반환값
+      this.flushCallStep();
+      result = yield* this.evaluateNode(funcNode.body);
     }
 
-    if (funcNode.body) {
-      this.evaluateNode(funcNode.body as Node);
+    // 반환 플래그는 호출자에게 전파되지 않음
+    this.hasReturned = false;
+    this.returnValue = undefined;
+
+    // 파생 클래스 생성자는 객체를 반환하지 않는 한 super()를 호출해야 함
+    const returnsObject =
+      result !== null &&
+      (typeof result === "object" || typeof result === "function");
+    if (!returnsObject && this.context.getCurrentScope().thisUninitialized) {
+      throw this.createThrownError(
+        this.createError(
+          "ReferenceError",
+          "Must call super constructor in derived class before accessing 'this' or returning from derived constructor",
+        ),
+      );
     }
 
     // 스코프 종료
     this.context.exitScope();
 
-    console.log(`[Closure] 종료 - name=${closure.name}, hasReturned=${this.hasReturned}`);
-    return this.returnValue;
-  }
-
-  /**
-   * async 함수 본문 실행
-   * await를 만나면 나머지 코드를 마이크로태스크로 스케줄
-   */
-  private executeAsyncFunctionBody(body: Node): import("./types").SimulatedPromise {
-    // async 함수는 항상 Promise 반환
-    const resultPromise = this.builtins.promiseResolve([undefined]);
-
-    // BlockStatement인 경우 개별 문장 순회
-    if (body.type === "BlockStatement") {
-      const block = body as unknown as { body: Node[] };
-      const statements = block.body;
-
-      for (let i = 0; i < statements.length; i++) {
-        const stmt = statements[i];
-        this.setLineFromNode(stmt);
-
-        // ExpressionStatement에서 AwaitExpression 찾기
-        if (stmt.type === "ExpressionStatement") {
-          const exprStmt = stmt as unknown as { expression: Node };
-          if (exprStmt.expression.type === "AwaitExpression") {
-            // await 표현식 처리
-            const awaitExpr = exprStmt.expression as unknown as { argument: Node };
-            const promise = this.evaluateNode(awaitExpr.argument);
-
-            this.recordStep("await 대기 중...");
-
-            // 나머지 문장들을 마이크로태스크로 스케줄
-            const remainingStatements = statements.slice(i + 1);
-            if (remainingStatements.length > 0) {
-              // 현재 스코프 캡처
-              const capturedScope = this.context.getCurrentScope();
-
-              if (this.builtins.isSimulatedPromise(promise)) {
-                // Promise.then으로 나머지 코드 스케줄
-                const continuationClosure: Closure = {
-                  functionNode: {
-                    type: "FunctionExpression",
-                    params: [],
-                    body: { type: "BlockStatement", body: remainingStatements },
-                  } as unknown as Node,
-                  capturedScope,
-                  name: "__async_continuation__",
-                };
-
-                this.builtins.promiseThen(promise, continuationClosure);
-              }
-            }
-
-            // async 함수 즉시 반환 (나머지는 마이크로태스크로 실행됨)
-            return resultPromise;
-          }
-        }
+    return result;
+  }
 
-        // 일반 문장 실행
-        this.evaluateNode(stmt);
-        if (this.hasReturned) break;
-      }
-    } else {
-      this.evaluateNode(body);
+  /**
+   * 동기 평가 실행
+   * 동기 컨텍스트에서 await를 만나면 에러
+   */
+  private runToCompletion(evaluation: Evaluation): unknown {
+    const result = evaluation.next();
+
+    if (!result.done) {
+      throw new RuntimeError(
+        this.isYieldSuspension(result.value)
+          ? "yield는 제너레이터 함수 안에서만 사용할 수 있습니다"
+          : "await는 async 함수 안에서만 사용할 수 있습니다",
+      );
     }
 
-    return resultPromise;
+    return result.value;
   }
 
   /**
-   * 노드 평가 (Visitor 패턴)
+   * async 함수 호출
+   * 첫 await까지 동기적으로 실행하고, 나머지는 await된 Promise가
+   * settle된 뒤 마이크로태스크로 재개
    */
-  private evaluateNode(node: Node): unknown {
-    this.checkStepLimit();
+  private startAsyncFunction(
+    closure: Closure,
+    args: unknown[],
+    thisArg?: unknown,
+  ): SimulatedPromise {
+    const activation: AsyncActivation = {
+      evaluation: this.evaluateFunctionBody(closure, args, thisArg),
+      scope: this.context.getCurrentScope(),
+      promise: this.builtins.createPendingPromise(),
+      name: this.getMethodLabel(closure, closure.name ?? "(anonymous)"),
+    };
 
-    if (this.hasReturned) {
-      return this.returnValue;
-    }
+    this.resumeActivation(activation, { value: undefined });
 
-    const n = node as AnyNode;
+    return activation.promise;
+  }
 
-    switch (node.type) {
-      case "Program":
-        return this.evaluateProgram(node);
-      case "ExpressionStatement":
-        return this.evaluateNode(n.expression as Node);
+  /**
+   * async 실행 단위 재개
+   * 다음 await까지 실행하거나, 완료 시 결과 Promise를 settle
+   */
+  private resumeActivation(
+    activation: AsyncActivation,
+    input: { value: unknown } | { error: unknown },
+  ): void {
+    const callerScope = this.context.getCurrentScope();
+    const outerAsyncContext = this.currentAsyncContext;
+
+    this.context.restoreScope(activation.scope);
+    this.currentAsyncContext = activation;
+
+    try {
+      const result =
+        "error" in input
+          ? activation.evaluation.throw(this.createThrownError(input.error))
+          : activation.evaluation.next(input.value);
+
+      if (result.done) {
+        this.builtins.resolvePromise(activation.promise, result.value);
+      } else if (this.isYieldSuspension(result.value)) {
+        throw new RuntimeError("async 제너레이터는 지원하지 않습니다");
+      } else {
+        // await 지점에서 일시 중지 -> 스코프 보관 후 재개 예약
+        activation.scope = this.context.getCurrentScope();
+        this.scheduleAwaitResumption(activation, result.value);
+      }
+    } catch (e) {
+      // 사용자 코드에서 throw된 에러는 async 함수의 Promise를 reject
+      if (this.isThrownError(e)) {
+        this.builtins.rejectPromise(activation.promise, e.error);
+      } else {
+        throw e;
+      }
+    } finally {
+      this.hasReturned = false;
+      this.returnValue = undefined;
+      this.context.restoreScope(callerScope);
+      this.currentAsyncContext = outerAsyncContext;
+    }
+  }
+
+  /**
+   * await 재개 예약
+   * await된 Promise가 settle되면 재개를 마이크로태스크로 스케줄
+   */
+  private scheduleAwaitResumption(
+    activation: AsyncActivation,
+    suspension: AwaitSuspension,
+  ): void {
+    const label = `${activation.name}()`;
+
+    const resume = (input: { value: unknown } | { error: unknown }) => {
+      this.recordStep(`마이크로태스크 실행: ${label} await 재개`);
+      this.eventLoop.pushToCallStack({
+        functionName: label,
+        location: "await 재개",
+      });
+
+      this.resumeActivation(activation, input);
+
+      this.eventLoop.popFromCallStack();
+      this.recordStep(
+        activation.promise.state === "pending"
+          ? `마이크로태스크 완료: ${label} 다시 일시 중지`
+          : `마이크로태스크 완료: ${label} 종료`,
+      );
+    };
+
+    this.builtins.addInternalReaction(
+      suspension.promise,
+      (value) => resume({ value }),
+      (error) => resume({ error }),
+      "await",
+      `${label} 재개 (PromiseReactionJob)`,
+    );
+  }
+
+  /**
+   * 만료된 타이머를 태스크 큐로 옮기고 단계 기록
+   */
+  private flushDueTimers(): void {
+    const moved = this.eventLoop.flushDueTimers();
+    if (moved.length === 0) return;
+
+    this.recordStep(
+      `가상 시간 ${this.eventLoop.getCurrentTime()}ms: 타이머 만료 → 태스크 큐 (${moved.join(", ")})`,
+    );
+  }
+
+  /**
+   * 내장 리액션 잡 안에서 사용자 콜백 실행 (Promise.finally 등)
+   * then 콜백과 같은 방식으로 프레임을 push/pop하고 단계를 기록
+   */
+  private invokeMicrotaskCallback(
+    closure: Closure,
+    args: unknown[],
+    source: string,
+    thisArg?: unknown,
+  ): unknown {
+    this.recordStep(`마이크로태스크 실행: ${source}`);
+    this.eventLoop.pushToCallStack({
+      functionName: `${source} callback`,
+      location: source,
+    });
+
+    let result: unknown;
+    try {
+      result = this.executeClosure(closure, args, thisArg);
+    } finally {
+      this.eventLoop.popFromCallStack();
+    }
+
+    this.recordStep(`마이크로태스크 완료: ${source}`);
+    return result;
+  }
+
+  /**
+   * 노드 평가 (Visitor 패턴)
+   */
+  private *evaluateNode(node: Node): Evaluation {
+    if (this.inspecting) {
+      this.checkSideEffectFree(node);
+    } else {
+      this.checkStepLimit();
+    }
+
+    if (this.hasReturned) {
+      return this.returnValue;
+    }
+
+    const n = node as AnyNode;
+
+    switch (node.type) {
+      case "Program":
+        return yield* this.evaluateProgram(node);
+      case "ExpressionStatement":
+        return yield* this.evaluateNode(n.expression as Node);
       case "BlockStatement":
-        return this.evaluateBlockStatement(node);
+        return yield* this.evaluateBlockStatement(node);
       case "VariableDeclaration":
-        return this.evaluateVariableDeclaration(node);
+        return yield* this.evaluateVariableDeclaration(node);
       case "FunctionDeclaration":
         return this.evaluateFunctionDeclaration(node);
       case "FunctionExpression":
       case "ArrowFunctionExpression":
         return this.evaluateFunctionExpression(node);
       case "CallExpression":
-        return this.evaluateCallExpression(node);
+        return yield* this.evaluateCallExpression(node);
       case "MemberExpression":
-        return this.evaluateMemberExpression(node);
+        return yield* this.evaluateMemberExpression(node);
       case "Identifier":
         return this.evaluateIdentifier(node);
+      case "ThisExpression":
+        return this.getInitializedThis();
+      case "ClassDeclaration":
+        return yield* this.evaluateClassDeclaration(node);
+      case "ClassExpression":
+        return yield* this.evaluateClass(node);
       case "Literal":
         return (n.value as unknown) ?? null;
       case "BinaryExpression":
-        return this.evaluateBinaryExpression(node);
+        return yield* this.evaluateBinaryExpression(node);
       case "UnaryExpression":
-        return this.evaluateUnaryExpression(node);
+        return yield* this.evaluateUnaryExpression(node);
       case "AssignmentExpression":
-        return this.evaluateAssignmentExpression(node);
+        return yield* this.evaluateAssignmentExpression(node);
       case "UpdateExpression":
-        return this.evaluateUpdateExpression(node);
+        return yield* this.evaluateUpdateExpression(node);
       case "LogicalExpression":
-        return this.evaluateLogicalExpression(node);
+        return yield* this.evaluateLogicalExpression(node);
       case "ConditionalExpression":
-        return this.evaluateConditionalExpression(node);
+        return yield* this.evaluateConditionalExpression(node);
       case "IfStatement":
-        return this.evaluateIfStatement(node);
+        return yield* this.evaluateIfStatement(node);
       case "ForStatement":
-        return this.evaluateForStatement(node);
+        return yield* this.evaluateForStatement(node);
       case "WhileStatement":
-        return this.evaluateWhileStatement(node);
+        return yield* this.evaluateWhileStatement(node);
+      case "DoWhileStatement":
+        return yield* this.evaluateDoWhileStatement(node);
+      case "ForOfStatement":
+        return yield* this.evaluateForOfStatement(node);
+      case "ForInStatement":
+        return yield* this.evaluateForInStatement(node);
+      case "SwitchStatement":
+        return yield* this.evaluateSwitchStatement(node);
+      case "BreakStatement":
+      case "ContinueStatement":
+        return this.evaluateJumpStatement(node);
+      case "LabeledStatement":
+        return yield* this.evaluateLabeledStatement(node);
+      case "EmptyStatement":
+        return undefined;
       case "ReturnStatement":
-        return this.evaluateReturnStatement(node);
+        return yield* this.evaluateReturnStatement(node);
       case "ArrayExpression":
-        return this.evaluateArrayExpression(node);
+        return yield* this.evaluateArrayExpression(node);
       case "ObjectExpression":
-        return this.evaluateObjectExpression(node);
+        return yield* this.evaluateObjectExpression(node);
       case "AwaitExpression":
-        return this.evaluateAwaitExpression(node);
+        return yield* this.evaluateAwaitExpression(node);
+      case "YieldExpression":
+        return yield* this.evaluateYieldExpression(node);
       case "TemplateLiteral":
-        return this.evaluateTemplateLiteral(node);
+        return yield* this.evaluateTemplateLiteral(node);
       case "NewExpression":
-        return this.evaluateNewExpression(node);
+        return yield* this.evaluateNewExpression(node);
       case "ThrowStatement":
-        return this.evaluateThrowStatement(node);
+        return yield* this.evaluateThrowStatement(node);
       case "TryStatement":
-        return this.evaluateTryStatement(node);
+        return yield* this.evaluateTryStatement(node);
       default:
         console.warn(`지원하지 않는 노드 타입: ${node.type}`);
         return undefined;
     }
   }
 
-  private evaluateProgram(node: Node): void {
+  private *evaluateProgram(node: Node): Evaluation<void> {
     const program = node as unknown as { body: Node[] };
+    this.hoistLexicalDeclarations(program.body);
     for (const statement of program.body) {
       this.setLineFromNode(statement);
-      this.evaluateNode(statement);
-      if (this.hasReturned) break;
+      yield* this.evaluateNode(statement);
+      if (this.hasReturned || this.pendingJump) break;
     }
   }
 
-  private evaluateBlockStatement(node: Node): void {
+  private *evaluateBlockStatement(node: Node): Evaluation<void> {
     const block = node as unknown as { body: Node[] };
     this.context.enterScope("block");
+    this.hoistLexicalDeclarations(block.body);
+    this.flushCallStep();
 
     for (const statement of block.body) {
       this.setLineFromNode(statement);
-      this.evaluateNode(statement);
-      if (this.hasReturned) break;
+      yield* this.evaluateNode(statement);
+      if (this.hasReturned || this.pendingJump) break;
     }
 
     this.context.exitScope();
   }
 
-  private evaluateVariableDeclaration(node: Node): void {
+  /**
+   * 블록 진입 시 let/const/class 선언을 초기화 전(TDZ) 바인딩으로 미리 생성
+   * 선언문이 실행될 때 초기화되며, 그 전에 접근하면 TDZ 에러
+   */
+  private hoistLexicalDeclarations(body: Node[]): void {
+    for (const statement of body) {
+      const n = statement as AnyNode;
+
+      if (n.type === "VariableDeclaration" && n.kind !== "var") {
+        for (const declarator of n.declarations as AnyNode[]) {
+          for (const name of this.collectPatternNames(declarator.id as Node)) {
+            this.context.declareVariable(name, n.kind as VariableKind);
+          }
+        }
+      } else if (n.type === "ClassDeclaration" && n.id) {
+        this.context.declareVariable((n.id as AnyNode).name as string, "let");
+      }
+    }
+  }
+
+  private *evaluateVariableDeclaration(node: Node): Evaluation<void> {
     const decl = node as unknown as {
       kind: "var" | "let" | "const";
-      declarations: Array<{ id: { name: string }; init?: Node }>;
+      declarations: Array<{ id: Node; init?: Node }>;
     };
 
     for (const declarator of decl.declarations) {
-      const name = declarator.id.name;
+      // 구조 분해 선언 (const { a, b } = obj, const [x, y] = arr)
+      if (declarator.id.type !== "Identifier") {
+        const value = declarator.init
+          ? yield* this.evaluateNode(declarator.init)
+          : undefined;
+        yield* this.bindPattern(declarator.id, value, decl.kind);
+        this.recordStep(
+          `변수 선언 (구조 분해): ${decl.kind} ${this.describeBindings(declarator.id)}`,
+        );
+        continue;
+      }
+
+      const name = (declarator.id as unknown as { name: string }).name;
       this.context.declareVariable(name, decl.kind);
 
       if (declarator.init) {
-        const value = this.evaluateNode(declarator.init);
+        const value = yield* this.evaluateNode(declarator.init);
+        this.inferName(value, name);
         this.context.initializeVariable(name, value);
         this.recordStep(
           `변수 선언: ${decl.kind} ${name} = ${this.stringify(value)}`,
@@ -456,13 +1168,18 @@ export class ASTInterpreter {
     return this.context.createClosure(node, name, isAsync);
   }
 
-  private evaluateCallExpression(node: Node): unknown {
+  private *evaluateCallExpression(node: Node): Evaluation {
     const call = node as unknown as { callee: Node; arguments: Node[] };
-    const args = call.arguments.map((arg) => this.evaluateNode(arg));
+    const args = yield* this.evaluateArguments(call.arguments);
 
     // callee 분석
     if (call.callee.type === "MemberExpression") {
-      return this.evaluateMemberCall(call.callee, args);
+      return yield* this.evaluateMemberCall(call.callee, args);
+    }
+
+    // 파생 클래스 생성자의 super(...) 호출
+    if (call.callee.type === "Super") {
+      return this.evaluateSuperCall(args);
     }
 
     if (call.callee.type === "Identifier") {
@@ -473,20 +1190,77 @@ export class ASTInterpreter {
         return this.handleSetTimeout(args);
       }
 
+      if (name === "setInterval") {
+        return this.handleSetInterval(args);
+      }
+
+      if (name === "clearTimeout" || name === "clearInterval") {
+        return this.handleClearTimer(name, args);
+      }
+
+      // Node.js 전용 타이머
+      if (this.config.runtime === "node" && name === "setImmediate") {
+        return this.handleSetImmediate(args);
+      }
+
+      if (this.config.runtime === "node" && name === "clearImmediate") {
+        const label = `clearImmediate(${this.stringify(args[0])})`;
+        this.recordStep(
+          this.eventLoop.clearImmediate(Number(args[0]))
+            ? `${label}: 취소`
+            : `${label}: 취소할 콜백 없음`,
+        );
+        return undefined;
+      }
+
       if (name === "queueMicrotask") {
         return this.handleQueueMicrotask(args);
       }
 
-      if (name === "requestAnimationFrame") {
-        return this.handleRequestAnimationFrame(args);
+      if (name === "fetch") {
+        return this.handleFetch(args);
+      }
+
+      // 워커 전역 함수 (self.postMessage/self.close)
+      if (this.workerScope && !this.context.hasVariable(name)) {
+        if (name === "postMessage") {
+          return this.postAgentMessage(args[0]);
+        }
+        if (name === "close") {
+          return this.terminateWorker(
+            this.findWorker((worker) => worker.interpreter === this),
+          );
+        }
+      }
+
+      // 렌더링 단계는 브라우저 메인 스레드에만 있음
+      if (this.config.runtime === "browser" && !this.host) {
+        if (name === "requestAnimationFrame") {
+          return this.handleRequestAnimationFrame(args);
+        }
+
+        if (name === "cancelAnimationFrame") {
+          const label = `cancelAnimationFrame(${this.stringify(args[0])})`;
+          this.recordStep(
+            this.eventLoop.cancelAnimationFrame(Number(args[0]))
+              ? `${label}: 취소`
+              : `${label}: 취소할 콜백 없음`,
+          );
+          return undefined;
+        }
       }
 
       // 사용자 정의 함수
-      const func = this.context.getVariable(name);
+      const func = this.lookupVariable(name);
       if (func && typeof func === "object" && "functionNode" in func) {
         return this.callUserFunction(func as Closure, args, name);
       }
 
+      // Error("x")처럼 new 없이 호출해도 에러 객체 생성
+      if (this.builtins.isSimulatedClass(func) && this.isBuiltinClass(func)) {
+        return this.instantiateClass(func, args);
+      }
+
       // 네이티브 함수 호출 지원 (Promise executor의 resolve/reject 등)
       if (typeof func === "function") {
         console.log(`[Native] 함수 호출: ${name}`);
@@ -495,29 +1269,105 @@ export class ASTInterpreter {
         return result;
       }
 
-      throw new RuntimeError(`'${name}'은(는) 함수가 아닙니다`);
+      throw this.createThrownError(
+        this.createError("TypeError", `${name} is not a function`),
+      );
     }
 
     // 즉시 실행 함수 등
-    const func = this.evaluateNode(call.callee);
+    const func = yield* this.evaluateNode(call.callee);
     if (func && typeof func === "object" && "functionNode" in func) {
       return this.callUserFunction(func as Closure, args, "(anonymous)");
     }
 
+    // 네이티브 메서드를 거쳐 감싸진 콜백 (queue.push(fn) 후 queue.shift()())
+    if (typeof func === "function") {
+      return (func as (...args: unknown[]) => unknown)(...args);
+    }
+
     return undefined;
   }
 
-  private evaluateMemberCall(callee: Node, args: unknown[]): unknown {
-    const member = callee as unknown as { object: Node; property: Node };
+  /**
+   * 인자 목록 평가 (왼쪽부터 순서대로)
+   */
+  private *evaluateArguments(nodes: Node[]): Evaluation<unknown[]> {
+    const args: unknown[] = [];
+    for (const arg of nodes) {
+      // 전개 인자 f(...args)
+      if (arg.type === "SpreadElement") {
+        const spread = arg as unknown as { argument: Node };
+        const iterable = yield* this.evaluateNode(spread.argument);
+        args.push(...this.collectIterable(iterable, `spread_${arg.start}`));
+        continue;
+      }
+      args.push(yield* this.evaluateNode(arg));
+    }
+    return args;
+  }
+
+  /**
+   * 속성 키 평가
+   * computed 키는 표현식 값, private 필드는 '#' 접두사를 붙인 이름
+   */
+  private *evaluateKey(key: Node, computed: boolean): Evaluation<string> {
+    if (computed) {
+      return String(yield* this.evaluateNode(key));
+    }
+
+    const keyNode = key as unknown as {
+      type: string;
+      name?: string;
+      value?: unknown;
+    };
+
+    if (keyNode.type === "PrivateIdentifier") return `#${keyNode.name}`;
+    if (keyNode.type === "Identifier") return keyNode.name as string;
+    return String(keyNode.value);
+  }
+
+  private *evaluateMemberCall(callee: Node, args: unknown[]): Evaluation {
+    const member = callee as unknown as {
+      object: Node;
+      property: Node;
+      computed: boolean;
+    };
     const objNode = member.object;
     const propNode = member.property;
 
+    // super.method() 호출
+    if (objNode.type === "Super") {
+      const prop = yield* this.evaluateKey(propNode, member.computed);
+      const thisValue = this.getInitializedThis();
+      const method = Reflect.get(this.getSuperTarget(), prop, thisValue);
+
+      if (!this.isClosure(method)) {
+        throw new RuntimeError(`super.${prop}은(는) 함수가 아닙니다`);
+      }
+
+      return this.callUserFunction(
+        method,
+        args,
+        this.getMethodLabel(method, prop),
+        thisValue,
+      );
+    }
+
     // console.log 등 처리
     if (objNode.type === "Identifier") {
       const objName = (objNode as unknown as { name: string }).name;
       const propName = (propNode as unknown as { name: string }).name;
       const fullName = `${objName}.${propName}`;
 
+      // 고해상도 시계는 가상 시계를 읽음 (Date.now도 0ms 기준 가상 시간)
+      if (fullName === "performance.now" || fullName === "Date.now") {
+        return this.eventLoop.getCurrentTime();
+      }
+
+      if (this.config.runtime === "node" && fullName === "process.nextTick") {
+        return this.handleNextTick(args);
+      }
+
       if (this.builtins.isBuiltin(fullName)) {
         const result = this.builtins.call(fullName, args);
         this.recordStep(`${fullName}() 호출`);
@@ -540,6 +1390,14 @@ export class ASTInterpreter {
           this.recordStep("Promise.race() 호출");
           return this.builtins.promiseRace(args[0] as unknown[]);
         }
+        if (propName === "allSettled") {
+          this.recordStep("Promise.allSettled() 호출");
+          return this.builtins.promiseAllSettled(args[0] as unknown[]);
+        }
+        if (propName === "any") {
+          this.recordStep("Promise.any() 호출");
+          return this.builtins.promiseAny(args[0] as unknown[]);
+        }
       }
 
       // JSON.stringify/parse 처리
@@ -556,8 +1414,8 @@ export class ASTInterpreter {
     }
 
     // 객체 메서드 호출
-    const obj = this.evaluateNode(objNode);
-    const prop = (propNode as unknown as { name: string }).name;
+    const obj = yield* this.evaluateNode(objNode);
+    const prop = yield* this.evaluateKey(propNode, member.computed);
 
     // Promise.then/catch 처리
     if (this.builtins.isSimulatedPromise(obj)) {
@@ -575,646 +1433,3568 @@ export class ASTInterpreter {
         this.recordStep("Promise.catch() 등록");
         return this.builtins.promiseCatch(obj, onRejected as Closure);
       }
+      if (prop === "finally") {
+        const [onFinally] = args;
+        this.recordStep("Promise.finally() 등록");
+        return this.builtins.promiseFinally(
+          obj,
+          this.isClosure(onFinally) ? onFinally : undefined,
+        );
+      }
     }
 
-    // MessagePort.postMessage 처리
-    if (obj && typeof obj === "object" && "channelId" in obj) {
-      const port = obj as SimulatedMessagePort;
-      if (prop === "postMessage") {
-        port.postMessage(args[0]);
-        this.recordStep("port.postMessage() 호출");
+    // generator.next/return/throw 처리
+    if (this.builtins.isSimulatedGenerator(obj)) {
+      if (prop === "next" || prop === "return" || prop === "throw") {
+        return this.resumeGenerator(obj, prop, args[0]);
+      }
+    }
+
+    // Response.json/text 처리
+    if (this.builtins.isSimulatedResponse(obj)) {
+      if (prop === "json" || prop === "text") {
+        return this.readResponseBody(obj, prop);
+      }
+    }
+
+    // 시뮬레이션 DOM 메서드
+    if (this.builtins.isSimulatedDocument(obj)) {
+      if (prop === "querySelector") {
+        this.recordStep(`document.querySelector('${args[0]}') 호출`);
+        return this.dom.querySelector(String(args[0]));
+      }
+      if (prop === "querySelectorAll") {
+        this.recordStep(`document.querySelectorAll('${args[0]}') 호출`);
+        return this.dom.querySelectorAll(String(args[0]));
+      }
+      if (prop === "getElementById") {
+        this.recordStep(`document.getElementById('${args[0]}') 호출`);
+        return this.dom.getElementById(String(args[0]));
+      }
+    }
+
+    if (this.builtins.isSimulatedElement(obj)) {
+      const label = this.dom.describe(obj);
+
+      if (prop === "addEventListener" || prop === "removeEventListener") {
+        const [type, callback, options] = args;
+        if (!this.isClosure(callback)) return undefined;
+
+        // 세 번째 인자: true 또는 { capture: true, once: true }
+        const flags =
+          typeof options === "object" && options !== null
+            ? (options as { capture?: unknown; once?: unknown })
+            : {};
+        const capture = options === true || flags.capture === true;
+
+        if (prop === "addEventListener") {
+          this.dom.addEventListener(
+            obj,
+            String(type),
+            callback,
+            capture,
+            flags.once === true,
+          );
+        } else {
+          this.dom.removeEventListener(obj, String(type), callback, capture);
+        }
+        this.recordStep(`${label}.${prop}('${type}')`);
         return undefined;
       }
+
+      if (prop === "click") {
+        return this.handleElementClick(obj);
+      }
+
+      if (prop === "setAttribute") {
+        const observed = this.dom.setAttribute(
+          obj,
+          String(args[0]),
+          String(args[1]),
+        );
+        this.recordStep(`${label}.setAttribute('${args[0]}')`);
+        if (observed) this.queueMutationObserverMicrotask();
+        return undefined;
+      }
+      if (prop === "getAttribute") {
+        return obj.attributes[String(args[0])] ?? null;
+      }
     }
 
-    return undefined;
-  }
+    if (this.builtins.isSimulatedEvent(obj)) {
+      if (prop === "stopPropagation") {
+        obj.cancelBubble = true;
+        this.recordStep("event.stopPropagation() 호출");
+        return undefined;
+      }
+      if (prop === "preventDefault") {
+        obj.defaultPrevented = true;
+        return undefined;
+      }
+    }
 
-  private handleSetTimeout(args: unknown[]): number {
-    const [callback, delay = 0] = args;
+    if (this.builtins.isSimulatedMutationObserver(obj)) {
+      if (prop === "observe") {
+        return this.observeMutations(obj, args[0], args[1]);
+      }
+      if (prop === "disconnect") {
+        this.dom.disconnect(obj);
+        this.recordStep("MutationObserver.disconnect() 호출");
+        return undefined;
+      }
+      if (prop === "takeRecords") {
+        const records = obj.records;
+        obj.records = [];
+        return records;
+      }
+    }
 
-    if (
-      callback &&
-      typeof callback === "object" &&
-      "functionNode" in callback
-    ) {
-      this.eventLoop.scheduleTask({
-        callback: callback as Closure,
-        source: "setTimeout",
-        delay: Number(delay),
-        createdAt: this.eventLoop.getCurrentTime(),
-        preview: `setTimeout(${delay}ms)`,
-      });
-      this.recordStep(`setTimeout() 등록 (${delay}ms)`);
+    // Worker 핸들 (메인 스레드 쪽)
+    if (this.builtins.isSimulatedWorker(obj)) {
+      if (prop === "postMessage") {
+        return this.postAgentMessage(args[0], obj);
+      }
+      if (
+        (prop === "addEventListener" || prop === "removeEventListener") &&
+        args[0] === "error"
+      ) {
+        return this.updateWorkerErrorListener(obj, prop, args[1]);
+      }
+      if (prop === "addEventListener" || prop === "removeEventListener") {
+        return this.updateMessageListener(obj, prop, args);
+      }
+      if (prop === "terminate") {
+        return this.terminateWorker(
+          this.findWorker((worker) => worker.handle === obj),
+        );
+      }
     }
 
-    return Math.floor(Math.random() * 1000000);
-  }
+    // 워커 전역 객체 self
+    if (this.builtins.isSimulatedWorkerScope(obj)) {
+      if (prop === "postMessage") {
+        return this.postAgentMessage(args[0]);
+      }
+      if (prop === "addEventListener" || prop === "removeEventListener") {
+        return this.updateMessageListener(obj, prop, args);
+      }
+      if (prop === "close") {
+        return this.terminateWorker(
+          this.findWorker((worker) => worker.interpreter === this),
+        );
+      }
+    }
 
-  /**
-   * queueMicrotask 처리
-   */
-  private handleQueueMicrotask(args: unknown[]): void {
-    const [callback] = args;
+    // MessagePort 메서드
+    if (this.builtins.isSimulatedMessagePort(obj)) {
+      if (prop === "postMessage") {
+        return this.postPortMessage(obj, args[0]);
+      }
+      if (prop === "addEventListener" || prop === "removeEventListener") {
+        return this.updateMessageListener(obj, prop, args);
+      }
+      if (prop === "start") {
+        this.startPort(obj);
+        this.recordStep(`${obj.name}.start() — 메시지 전달 시작`);
+        return undefined;
+      }
+      if (prop === "close") {
+        return this.closePort(obj);
+      }
+    }
 
-    if (
-      callback &&
-      typeof callback === "object" &&
-      "functionNode" in callback
-    ) {
-      this.eventLoop.scheduleMicrotask({
-        callback: callback as Closure,
-        source: "queueMicrotask",
-        createdAt: this.eventLoop.getCurrentTime(),
-        preview: "queueMicrotask callback",
-      });
-      this.recordStep("queueMicrotask() 등록");
+    const objectLabel = this.describeCallee(objNode);
+
+    // Function.prototype.call/apply/bind
+    if (this.isClosure(obj)) {
+      if (prop === "call") {
+        const [thisArg, ...rest] = args;
+        return this.callUserFunction(obj, rest, objectLabel, thisArg);
+      }
+      if (prop === "apply") {
+        const [thisArg, argArray] = args;
+        return this.callUserFunction(
+          obj,
+          Array.isArray(argArray) ? argArray : [],
+          objectLabel,
+          thisArg,
+        );
+      }
+      if (prop === "bind") {
+        const [thisArg, ...boundArgs] = args;
+        this.recordStep(`${objectLabel}.bind() - this 고정된 새 함수 생성`);
+        return this.createBoundClosure(obj, thisArg, boundArgs);
+      }
     }
-  }
 
-  /**
-   * requestAnimationFrame 처리
-   */
-  private handleRequestAnimationFrame(args: unknown[]): number {
-    const [callback] = args;
+    if (obj === null || obj === undefined) {
+      throw this.createThrownError(
+        this.createError(
+          "TypeError",
+          `Cannot read properties of ${this.stringify(obj)} (reading '${prop}')`,
+        ),
+      );
+    }
 
+    // 배열 고차 함수 (콜백마다 프레임 표시)
     if (
-      callback &&
-      typeof callback === "object" &&
-      "functionNode" in callback
+      Array.isArray(obj) &&
+      ARRAY_CALLBACK_METHODS.includes(prop) &&
+      this.isClosure(args[0])
     ) {
-      // rAF는 task로 처리 (실제로는 렌더링 전 실행)
-      this.eventLoop.scheduleTask({
-        callback: callback as Closure,
-        source: "requestAnimationFrame",
-        delay: 16, // ~60fps 시뮬레이션
-        createdAt: this.eventLoop.getCurrentTime(),
-        preview: "requestAnimationFrame callback",
-      });
-      this.recordStep("requestAnimationFrame() 등록");
+      return this.callArrayMethod(
+        obj,
+        prop,
+        args[0],
+        args.slice(1),
+        objectLabel,
+      );
+    }
+
+    const method = (obj as Record<string, unknown>)[prop];
+
+    // 사용자 정의 메서드 호출 (this = 점 앞의 객체)
+    if (this.isClosure(method)) {
+      const label = method.homeClass
+        ? this.getMethodLabel(method, prop)
+        : `${objectLabel}.${prop}`;
+      return this.callUserFunction(method, args, label, obj);
+    }
+
+    // 네이티브 메서드 호출 (arr.push, str.toUpperCase 등)
+    if (typeof method === "function") {
+      const nativeArgs = args.map((arg) =>
+        this.isClosure(arg) ? this.toNativeCallback(arg) : arg,
+      );
+      const result = (method as (...a: unknown[]) => unknown).apply(
+        obj,
+        nativeArgs,
+      );
+      this.recordStep(`${objectLabel}.${prop}() 호출`);
+      return result;
     }
 
-    return Math.floor(Math.random() * 1000000);
+    throw this.createThrownError(
+      this.createError("TypeError", `${objectLabel}.${prop} is not a function`),
+    );
   }
 
   /**
-   * new 연산자 처리
+   * 배열 고차 함수 실행 (forEach, map, filter, reduce, find, some, every, sort)
    */
-  private evaluateNewExpression(node: Node): unknown {
-    const expr = node as unknown as { callee: Node; arguments: Node[] };
-    const args = expr.arguments.map((arg) => this.evaluateNode(arg));
-
-    if (expr.callee.type === "Identifier") {
-      const name = (expr.callee as unknown as { name: string }).name;
+  private callArrayMethod(
+    array: unknown[],
+    method: string,
+    callback: Closure,
+    rest: unknown[],
+    arrayLabel: string,
+  ): unknown {
+    const label = callback.name ?? `${method} 콜백`;
+    const location = `${arrayLabel}.${method}()`;
+    const thisArg = rest[0];
+    // 순회 중 추가된 요소는 방문하지 않음
+    const length = array.length;
+
+    this.recordStep(`${location} 호출 - 요소 ${length}개`);
+
+    const callAt = (index: number): unknown =>
+      this.callArrayCallback(
+        callback,
+        [array[index], index, array],
+        label,
+        `${location} [${index}]`,
+        { element: array[index], index },
+        thisArg,
+      );
 
-      // MessageChannel 생성자
-      if (name === "MessageChannel") {
-        return this.createMessageChannel();
+    switch (method) {
+      case "forEach": {
+        for (let i = 0; i < length; i++) {
+          if (!(i in array)) continue;
+          const result = callAt(i);
+
+          // async 콜백이 반환한 Promise는 무시됨 (forEach는 기다리지 않음)
+          if (this.builtins.isSimulatedPromise(result)) {
+            this.recordStep(
+              `forEach는 콜백이 반환한 ${this.stringify(result)}를 기다리지 않고 다음 요소로 진행`,
+            );
+          }
+        }
+        return undefined;
       }
 
-      // Promise 생성자
-      if (name === "Promise") {
-        const [executor] = args;
-        if (executor && typeof executor === "object" && "functionNode" in executor) {
-          const promise = this.builtins.createPromise(executor as Closure);
+      case "map": {
+        const mapped: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          if (i in array) mapped[i] = callAt(i);
+        }
+        return mapped;
+      }
 
-          // executor 동기 실행 (resolve, reject 전달)
-          const { resolve, reject } = promise.value as {
-            resolve: (value: unknown) => void;
-            reject: (reason: unknown) => void;
-          };
+      case "filter": {
+        const filtered: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          if (i in array && callAt(i)) filtered.push(array[i]);
+        }
+        return filtered;
+      }
 
-          this.executeClosure(executor as Closure, [resolve, reject]);
+      case "find": {
+        for (let i = 0; i < length; i++) {
+          if (callAt(i)) return array[i];
+        }
+        return undefined;
+      }
 
-          // promise.value 정리 (executor 참조 제거)
-          promise.value = undefined;
+      case "some": {
+        for (let i = 0; i < length; i++) {
+          if (i in array && callAt(i)) return true;
+        }
+        return false;
+      }
 
-          return promise;
+      case "every": {
+        for (let i = 0; i < length; i++) {
+          if (i in array && !callAt(i)) return false;
         }
+        return true;
       }
-    }
 
-    throw new RuntimeError(`'new ${expr.callee.type}' 생성자를 지원하지 않습니다`);
-  }
+      case "reduce": {
+        let index = 0;
+        let accumulator: unknown;
+
+        if (rest.length > 0) {
+          accumulator = rest[0];
+        } else {
+          while (index < length && !(index in array)) index++;
+          if (index >= length) {
+            throw this.createThrownError(
+              this.createError(
+                "TypeError",
+                "Reduce of empty array with no initial value",
+              ),
+            );
+          }
+          accumulator = array[index++];
+        }
 
-  /**
-   * MessageChannel 생성
-   */
-  private createMessageChannel(): SimulatedMessageChannel {
-    const channelId = nanoid(8);
+        for (; index < length; index++) {
+          if (!(index in array)) continue;
+          accumulator = this.callArrayCallback(
+            callback,
+            [accumulator, array[index], index, array],
+            label,
+            `${location} [${index}]`,
+            { accumulator, element: array[index], index },
+          );
+        }
+        return accumulator;
+      }
 
-    const channel: SimulatedMessageChannel = {
-      id: channelId,
-      port1: {
-        id: `${channelId}_port1`,
-        channelId,
-        onmessage: null,
-        postMessage: () => {}, // port2에서 호출
-      },
-      port2: {
-        id: `${channelId}_port2`,
-        channelId,
-        onmessage: null,
-        postMessage: () => {
-          // port1.onmessage를 task로 스케줄
-          const port1 = channel.port1;
-          if (port1.onmessage) {
-            this.eventLoop.scheduleTask({
-              callback: port1.onmessage,
-              source: "MessageChannel",
-              createdAt: this.eventLoop.getCurrentTime(),
-              preview: "MessageChannel task",
-            });
-          }
-        },
-      },
-    };
+      case "sort": {
+        return array.sort((a, b) =>
+          Number(
+            this.callArrayCallback(callback, [a, b], label, location, { a, b }),
+          ),
+        );
+      }
 
-    this.messageChannels.set(channelId, channel);
-    this.recordStep("new MessageChannel() 생성");
-    return channel;
+      default:
+        return undefined;
+    }
   }
 
-  private callUserFunction(
-    closure: Closure,
+  /**
+   * 배열 고차 함수의 콜백 1회 호출
+   * 콜백마다 프레임을 push/pop하고 현재 요소와 인덱스를 프레임 변수로 표시
+   */
+  private callArrayCallback(
+    callback: Closure,
     args: unknown[],
-    name: string,
+    label: string,
+    location: string,
+    variables: Record<string, unknown>,
+    thisArg?: unknown,
   ): unknown {
-    // 콜스택 깊이 체크
     if (this.eventLoop.getCallStackDepth() >= this.config.maxCallStackDepth) {
       throw new ExecutionLimitError("콜스택 깊이 초과 (재귀 호출 제한)");
     }
 
+    const described = Object.entries(variables)
+      .map(([key, value]) => `${key}=${this.stringify(value)}`)
+      .join(", ");
+
     this.eventLoop.pushToCallStack({
-      functionName: `${name}()`,
-      location: this.getCurrentLocation(),
-      variables: this.context.getVariablesSnapshot(),
+      functionName: `${label}()`,
+      location,
+      variables,
     });
-    this.recordStep(`함수 호출: ${name}()`);
+    this.recordCallStep(`콜백 호출: ${label}(${described})`);
 
-    const result = this.executeClosure(closure, args);
+    let result: unknown;
+    try {
+      result = this.executeClosure(callback, args, thisArg);
+    } finally {
+      this.flushCallStep();
+      this.eventLoop.popFromCallStack();
+    }
 
-    this.eventLoop.popFromCallStack();
-    this.recordStep(`함수 종료: ${name}()`);
+    this.recordStep(`콜백 종료: ${label}() → ${this.stringify(result)}`);
 
     return result;
   }
 
-  private evaluateMemberExpression(node: Node): unknown {
-    const member = node as unknown as {
-      object: Node;
-      property: Node;
-      computed: boolean;
+  /**
+   * bind()로 this와 앞쪽 인자가 고정된 클로저 생성
+   */
+  private createBoundClosure(
+    target: Closure,
+    boundThis: unknown,
+    boundArgs: unknown[],
+  ): Closure {
+    return {
+      ...target,
+      name: `bound ${target.name ?? "(anonymous)"}`,
+      boundTarget: target,
+      boundThis,
+      boundArgs,
     };
+  }
 
-    const obj = this.evaluateNode(member.object) as Record<string, unknown>;
-    if (!obj) return undefined;
+  /**
+   * 네이티브 메서드에 넘길 콜백 (호출 시 사용자 함수 프레임으로 실행)
+   */
+  private toNativeCallback(closure: Closure): (...args: unknown[]) => unknown {
+    return (...callbackArgs: unknown[]) =>
+      this.callUserFunction(
+        closure,
+        callbackArgs,
+        closure.name ?? "(anonymous)",
+      );
+  }
 
-    const prop = member.computed
-      ? String(this.evaluateNode(member.property))
-      : (member.property as unknown as { name: string }).name;
+  /**
+   * 호출 대상 표현식의 표시용 이름 (obj, this, a.b)
+   */
+  private describeCallee(node: Node): string {
+    const n = node as AnyNode;
 
-    // MessageChannel 포트 속성 접근
-    if (typeof obj === "object" && "port1" in obj && "port2" in obj) {
-      const channel = obj as unknown as SimulatedMessageChannel;
-      if (prop === "port1") return channel.port1;
-      if (prop === "port2") return channel.port2;
+    switch (node.type) {
+      case "Identifier":
+        return n.name as string;
+      case "ThisExpression":
+        return "this";
+      case "MemberExpression":
+        return n.computed
+          ? `${this.describeCallee(n.object as Node)}[...]`
+          : `${this.describeCallee(n.object as Node)}.${(n.property as AnyNode).name}`;
+      case "CallExpression":
+        return `${this.describeCallee(n.callee as Node)}()`;
+      default:
+        return "(anonymous)";
     }
-
-    return obj[prop];
   }
 
-  private evaluateIdentifier(node: Node): unknown {
-    const id = node as unknown as { name: string };
+  private handleSetTimeout(args: unknown[]): number {
+    const [callback, delay = 0, ...callbackArgs] = args;
 
-    // 특수 식별자
-    if (id.name === "undefined") return undefined;
-    if (id.name === "null") return null;
-    if (id.name === "true") return true;
-    if (id.name === "false") return false;
+    if (
+      callback &&
+      typeof callback === "object" &&
+      "functionNode" in callback
+    ) {
+      const timerId = this.eventLoop.scheduleTimer({
+        callback: callback as Closure,
+        source: "setTimeout",
+        delay: Number(delay),
+        createdAt: this.eventLoop.getCurrentTime(),
+        preview: `setTimeout(${delay}ms)`,
+        args: callbackArgs,
+      });
+      this.recordStep(
+        `setTimeout() 등록 (${delay}ms, 만료 시각 ${this.eventLoop.getTimerDueTime(timerId)}ms)`,
+      );
+      return timerId;
+    }
 
-    return this.context.getVariable(id.name);
+    return 0;
   }
 
-  private evaluateBinaryExpression(node: Node): unknown {
-    const expr = node as unknown as {
-      left: Node;
-      right: Node;
-      operator: string;
-    };
-    const left = this.evaluateNode(expr.left);
-    const right = this.evaluateNode(expr.right);
+  /**
+   * el.click() 처리
+   * 스크립트가 콜스택에 있는 채로 동기 디스패치하므로
+   * 리스너 사이에 마이크로태스크 체크포인트가 없음
+   */
+  private handleElementClick(target: SimulatedElement): undefined {
+    const label = `${this.dom.describe(target)}.click()`;
+    this.recordStep(`${label} 호출 → 동기 디스패치 (isTrusted: false)`);
+    this.eventLoop.pushToCallStack({
+      functionName: label,
+      location: this.getCurrentLocation(),
+    });
 
-    switch (expr.operator) {
-      case "+":
-        return (left as number) + (right as number);
-      case "-":
-        return (left as number) - (right as number);
-      case "*":
-        return (left as number) * (right as number);
-      case "/":
-        return (left as number) / (right as number);
-      case "%":
-        return (left as number) % (right as number);
-      case "**":
-        return (left as number) ** (right as number);
-      case "==":
-        return left === right;
-      case "!=":
-        return left !== right;
-      case "===":
-        return left === right;
-      case "!==":
-        return left !== right;
-      case "<":
-        return (left as number) < (right as number);
-      case ">":
-        return (left as number) > (right as number);
-      case "<=":
-        return (left as number) <= (right as number);
-      case ">=":
-        return (left as number) >= (right as number);
-      default:
-        return undefined;
+    try {
+      this.dispatchDomEvent(target, "click", false);
+    } finally {
+      this.eventLoop.popFromCallStack();
     }
+
+    this.recordStep(`${label} 반환 (마이크로태스크는 스크립트가 끝난 뒤 실행)`);
+    return undefined;
   }
 
-  private evaluateUnaryExpression(node: Node): unknown {
-    const expr = node as unknown as { operator: string; argument: Node };
-    const arg = this.evaluateNode(expr.argument);
+  /**
+   * 사용자 입력 예약 (브라우저 전용)
+   * 입력 시각에 태스크로 들어와 빈 콜스택에서 디스패치됨
+   */
+  private scheduleUserEvents(): void {
+    if (this.config.runtime !== "browser") return;
+
+    for (const event of this.config.userEvents) {
+      this.builtins.scheduleInternalTask(
+        "user click",
+        `사용자 클릭 (${event.selector})`,
+        Math.max(0, event.time - this.eventLoop.getCurrentTime()),
+        () => {
+          const target = this.dom.querySelector(event.selector);
+          if (!target) {
+            this.recordStep(
+              `태스크 실행: 사용자 클릭 — '${event.selector}' 요소 없음`,
+            );
+            return;
+          }
 
-    switch (expr.operator) {
-      case "!":
-        return !arg;
-      case "-":
-        return -(arg as number);
-      case "+":
-        return +(arg as number);
-      case "typeof":
-        return typeof arg;
-      default:
-        return undefined;
+          this.recordStep(
+            `태스크 실행: 사용자 클릭 (${this.dom.describe(target)}, isTrusted: true)`,
+          );
+          this.dispatchDomEvent(target, event.type, true);
+        },
+      );
     }
   }
 
-  private evaluateAssignmentExpression(node: Node): unknown {
-    const expr = node as unknown as {
-      left: Node;
-      right: Node;
-      operator: string;
+  /**
+   * DOM 이벤트 디스패치 (캡처 → 타깃 → 버블)
+   * 사용자 입력은 리스너마다 JS 스택이 비므로 리스너 사이에 마이크로태스크 체크포인트가 있음
+   */
+  private dispatchDomEvent(
+    target: SimulatedElement,
+    type: string,
+    isTrusted: boolean,
+  ): void {
+    const event: SimulatedEvent = {
+      __isSimulatedEvent: true,
+      type,
+      target,
+      currentTarget: null,
+      eventPhase: 0,
+      bubbles: true,
+      isTrusted,
+      defaultPrevented: false,
+      cancelBubble: false,
     };
-    const value = this.evaluateNode(expr.right);
 
-    // MemberExpression 할당 (port.onmessage = callback)
-    if (expr.left.type === "MemberExpression") {
-      const member = expr.left as unknown as { object: Node; property: Node };
-      const obj = this.evaluateNode(member.object);
-      const propName = (member.property as unknown as { name: string }).name;
+    const path = this.dom.getEventPath(target);
+    const ancestors = path.slice(0, -1);
+
+    // 호출 순서: 캡처(루트 → 부모), 타깃(캡처 리스너 먼저), 버블(부모 → 루트)
+    const invocations: {
+      element: SimulatedElement;
+      phase: number;
+      capture: boolean;
+    }[] = [
+      ...ancestors.map((element) => ({ element, phase: 1, capture: true })),
+      { element: target, phase: 2, capture: true },
+      { element: target, phase: 2, capture: false },
+      ...[...ancestors]
+        .reverse()
+        .map((element) => ({ element, phase: 3, capture: false })),
+    ];
+
+    for (const { element, phase, capture } of invocations) {
+      if (event.cancelBubble) break;
+
+      const listeners = this.dom
+        .getListeners(element, type)
+        .filter((listener) => listener.capture === capture);
+
+      for (const listener of listeners) {
+        // once 리스너는 실행 전에 제거 (리스너 안에서 다시 dispatch해도 한 번만 실행)
+        if (listener.once) {
+          this.dom.removeEventListener(
+            element,
+            type,
+            listener.callback,
+            listener.capture,
+          );
+        }
 
-      // MessagePort.onmessage 할당 처리
-      if (
-        obj &&
-        typeof obj === "object" &&
-        "channelId" in obj &&
-        propName === "onmessage"
-      ) {
-        (obj as SimulatedMessagePort).onmessage = value as Closure;
-        this.recordStep("port.onmessage 등록");
-        return value;
-      }
+        event.currentTarget = element;
+        event.eventPhase = phase;
+        this.invokeListener(
+          listener.callback,
+          event,
+          element,
+          `${type} listener (${this.dom.describe(element)})`,
+        );
 
-      // 일반 객체 속성 할당
-      if (obj && typeof obj === "object") {
-        (obj as Record<string, unknown>)[propName] = value;
-        return value;
+        if (isTrusted && !this.eventLoop.isMicrotaskQueueEmpty()) {
+          this.recordStep(
+            "마이크로태스크 체크포인트 (리스너 종료 후 콜스택이 비어 있음)",
+          );
+          this.drainMicrotasks();
+        }
       }
     }
 
-    if (expr.left.type === "Identifier") {
-      const name = (expr.left as unknown as { name: string }).name;
-
-      if (expr.operator === "=") {
-        this.context.setVariable(name, value);
-      } else {
-        const current = this.context.getVariable(name) as number;
-        let newValue: number;
+    event.currentTarget = null;
+    event.eventPhase = 0;
+  }
 
-        switch (expr.operator) {
-          case "+=":
-            newValue = current + (value as number);
-            break;
-          case "-=":
-            newValue = current - (value as number);
-            break;
-          case "*=":
-            newValue = current * (value as number);
-            break;
-          case "/=":
-            newValue = current / (value as number);
-            break;
-          default:
-            newValue = value as number;
-        }
+  /**
+   * 이벤트 리스너 하나 실행 (this는 currentTarget)
+   */
+  private invokeListener(
+    callback: Closure,
+    event: unknown,
+    currentTarget: unknown,
+    label: string,
+  ): void {
+    this.recordStep(`${label} 실행`);
+    this.eventLoop.pushToCallStack({
+      functionName: callback.name ? `${callback.name}()` : label,
+      location: label,
+    });
 
-        this.context.setVariable(name, newValue);
-        return newValue;
+    let thrown: import("./types").ThrownError | null = null;
+    try {
+      this.executeClosure(callback, [event], currentTarget);
+    } catch (e) {
+      // 브라우저처럼 리스너의 에러는 보고만 하고 나머지 리스너와 호출자는 계속 실행
+      if (!this.isThrownError(e)) {
+        throw e;
       }
-
-      return value;
+      thrown = e;
+    } finally {
+      this.eventLoop.popFromCallStack();
     }
 
-    return value;
+    if (thrown) {
+      this.reportUncaughtError(thrown.error);
+      return;
+    }
+    this.recordStep(`${label} 완료`);
   }
 
-  private evaluateUpdateExpression(node: Node): unknown {
-    const expr = node as unknown as {
-      argument: Node;
-      operator: string;
-      prefix: boolean;
-    };
+  /**
+   * fetch 처리
+   * 모의 네트워크 지연 뒤 응답 도착 태스크에서 Promise를 이행
+   * HTTP 오류 상태(404, 500)는 이행이고, 네트워크 오류만 거부됨
+   */
+  private handleFetch(args: unknown[]): SimulatedPromise {
+    const url = String(args[0]);
+    const promise = this.builtins.createPendingPromise();
+    const result = this.network.request(url);
+
+    const timerId = this.builtins.scheduleInternalTask(
+      "fetch",
+      `fetch(${url})`,
+      result.latency,
+      () => {
+        if (result.networkError) {
+          this.recordStep(`태스크 실행: fetch 실패 (${url}) → 네트워크 오류`);
+          this.builtins.rejectPromise(
+            promise,
+            this.createError("TypeError", "Failed to fetch"),
+          );
+          return;
+        }
 
-    if (expr.argument.type === "Identifier") {
-      const name = (expr.argument as unknown as { name: string }).name;
-      const current = this.context.getVariable(name) as number;
-      const newValue = expr.operator === "++" ? current + 1 : current - 1;
+        const response: SimulatedResponse = {
+          __isSimulatedResponse: true,
+          url,
+          status: result.status,
+          statusText: result.statusText,
+          ok: result.status >= 200 && result.status < 300,
+          bodyUsed: false,
+          body: result.body,
+        };
+        this.recordStep(
+          `태스크 실행: fetch 응답 도착 (${url}) → ${result.status} ${result.statusText}`,
+        );
+        this.builtins.resolvePromise(promise, response);
+      },
+    );
 
-      this.context.setVariable(name, newValue);
+    this.recordStep(
+      `fetch() 요청 (${url}, 지연 ${result.latency}ms, 도착 시각 ${this.eventLoop.getTimerDueTime(timerId)}ms)`,
+    );
+    return promise;
+  }
 
-      return expr.prefix ? newValue : current;
+  /**
+   * Response 본문 읽기 (json/text)
+   * 모의 응답은 본문을 한 번에 받으므로 바로 이행하고, 본문은 한 번만 읽을 수 있음
+   */
+  private readResponseBody(
+    response: SimulatedResponse,
+    method: "json" | "text",
+  ): SimulatedPromise {
+    this.recordStep(`response.${method}() 호출`);
+    const promise = this.builtins.createPendingPromise();
+
+    if (response.bodyUsed) {
+      this.builtins.rejectPromise(
+        promise,
+        this.createError(
+          "TypeError",
+          `Failed to execute '${method}' on 'Response': body stream already read`,
+        ),
+      );
+      return promise;
     }
+    response.bodyUsed = true;
 
-    return undefined;
-  }
+    if (method === "text") {
+      this.builtins.resolvePromise(promise, response.body);
+      return promise;
+    }
 
-  private evaluateLogicalExpression(node: Node): unknown {
+    try {
+      this.builtins.resolvePromise(promise, JSON.parse(response.body));
+    } catch {
+      this.builtins.rejectPromise(
+        promise,
+        this.createError(
+          "SyntaxError",
+          `Unexpected token in JSON: "${response.body.slice(0, 20)}" is not valid JSON`,
+        ),
+      );
+    }
+    return promise;
+  }
+
+  /**
+   * setInterval 처리
+   * 실행될 때마다 같은 ID로 재등록되며, clearInterval 또는 틱 예산으로 중지
+   */
+  private handleSetInterval(args: unknown[]): number {
+    const [callback, delay = 0, ...callbackArgs] = args;
+
+    if (!this.isClosure(callback)) return 0;
+
+    const timerId = this.eventLoop.scheduleTimer({
+      callback,
+      source: "setInterval",
+      delay: Number(delay),
+      createdAt: this.eventLoop.getCurrentTime(),
+      preview: `setInterval(${delay}ms)`,
+      repeat: true,
+      args: callbackArgs,
+    });
+    this.recordStep(`setInterval() 등록 (${delay}ms 간격, id=${timerId})`);
+
+    return timerId;
+  }
+
+  /**
+   * setImmediate 처리 (Node.js check 단계에서 실행)
+   */
+  private handleSetImmediate(args: unknown[]): number {
+    const [callback, ...callbackArgs] = args;
+
+    if (!this.isClosure(callback)) return 0;
+
+    const id = this.eventLoop.scheduleImmediate({
+      callback,
+      source: "setImmediate",
+      createdAt: this.eventLoop.getCurrentTime(),
+      preview: "setImmediate callback",
+      args: callbackArgs,
+    });
+    this.recordStep("setImmediate() 등록 (check 단계에서 실행)");
+
+    return id;
+  }
+
+  /**
+   * process.nextTick 처리
+   * nextTick 큐는 Promise 마이크로태스크보다 먼저 비워짐
+   */
+  private handleNextTick(args: unknown[]): void {
+    const [callback] = args;
+
+    if (!this.isClosure(callback)) {
+      throw this.createThrownError(
+        this.createError(
+          "TypeError",
+          'The "callback" argument must be of type function',
+        ),
+      );
+    }
+
+    this.eventLoop.scheduleNextTick({
+      callback,
+      source: "process.nextTick",
+      createdAt: this.eventLoop.getCurrentTime(),
+      preview: "process.nextTick callback",
+    });
+    this.recordStep("process.nextTick() 등록");
+  }
+
+  /**
+   * clearTimeout/clearInterval 처리 (두 함수는 같은 타이머 ID 공간을 공유)
+   */
+  private handleClearTimer(name: string, args: unknown[]): void {
+    const label = `${name}(${this.stringify(args[0])})`;
+
+    this.recordStep(
+      this.eventLoop.clearTimer(Number(args[0]))
+        ? `${label}: 타이머 취소`
+        : `${label}: 취소할 타이머 없음`,
+    );
+  }
+
+  /**
+   * 실행을 마친 setInterval 재등록
+   */
+  private rearmInterval(task: ScheduledTask): void {
+    const result = this.eventLoop.rearmInterval(
+      task,
+      this.config.maxIntervalTicks,
+    );
+
+    if (result === "rearmed") {
+      this.recordStep(
+        `setInterval 재등록 (다음 만료 ${this.eventLoop.getTimerDueTime(task.timerId as number)}ms)`,
+      );
+    } else if (result === "exhausted") {
+      this.recordStep(
+        `setInterval 틱 예산(${this.config.maxIntervalTicks}회) 소진 → 중지`,
+      );
+    }
+  }
+
+  /**
+   * queueMicrotask 처리
+   */
+  private handleQueueMicrotask(args: unknown[]): void {
+    const [callback] = args;
+
+    if (
+      callback &&
+      typeof callback === "object" &&
+      "functionNode" in callback
+    ) {
+      this.eventLoop.scheduleMicrotask({
+        callback: callback as Closure,
+        source: "queueMicrotask",
+        createdAt: this.eventLoop.getCurrentTime(),
+        preview: "queueMicrotask callback",
+      });
+      this.recordStep("queueMicrotask() 등록");
+    }
+  }
+
+  /**
+   * requestAnimationFrame 처리
+   */
+  private handleRequestAnimationFrame(args: unknown[]): number {
+    const [callback] = args;
+
+    if (
+      callback &&
+      typeof callback === "object" &&
+      "functionNode" in callback
+    ) {
+      // 다음 렌더링 기회(프레임 경계)에 스타일/레이아웃 직전 실행
+      const id = this.eventLoop.scheduleAnimationFrame({
+        callback: callback as Closure,
+        source: "requestAnimationFrame",
+        createdAt: this.eventLoop.getCurrentTime(),
+        preview: "requestAnimationFrame callback",
+      });
+      this.recordStep(
+        this.eventLoop.isRenderingOpportunity()
+          ? "requestAnimationFrame() 등록 (프레임 경계 지남 → 현재 태스크 직후 렌더링)"
+          : `requestAnimationFrame() 등록 (다음 프레임 ${this.eventLoop.getNextFrameTime()}ms)`,
+      );
+      return id;
+    }
+
+    return 0;
+  }
+
+  /**
+   * new 연산자 처리
+   */
+  private *evaluateNewExpression(node: Node): Evaluation {
+    const expr = node as unknown as { callee: Node; arguments: Node[] };
+    const args = yield* this.evaluateArguments(expr.arguments);
+    const calleeName =
+      expr.callee.type === "Identifier"
+        ? (expr.callee as unknown as { name: string }).name
+        : null;
+
+    // MutationObserver 생성자 (시뮬레이션 DOM이 있는 메인 스레드 전용)
+    if (
+      calleeName === "MutationObserver" &&
+      this.config.runtime === "browser" &&
+      !this.host
+    ) {
+      return this.createMutationObserver(args[0]);
+    }
+
+    // Worker 생성자 (브라우저 메인 스레드 전용)
+    if (
+      calleeName === "Worker" &&
+      this.config.runtime === "browser" &&
+      !this.host
+    ) {
+      return this.createWorker(String(args[0]));
+    }
+
+    if (calleeName === "MessageChannel" || calleeName === "Promise") {
+      const name = calleeName;
+
+      // MessageChannel 생성자
+      if (name === "MessageChannel") {
+        return this.createMessageChannel();
+      }
+
+      // Promise 생성자
+      if (name === "Promise") {
+        const [executor] = args;
+        if (executor && typeof executor === "object" && "functionNode" in executor) {
+          const promise = this.builtins.createPromise(executor as Closure);
+
+          // executor 동기 실행 (resolve, reject 전달)
+          const { resolve, reject } = promise.value as {
+            resolve: (value: unknown) => void;
+            reject: (reason: unknown) => void;
+          };
+
+          this.executeClosure(executor as Closure, [resolve, reject]);
+
+          // promise.value 정리 (executor 참조 제거, 동기 resolve된 값은 유지)
+          if (promise.state === "pending") {
+            promise.value = undefined;
+          }
+
+          return promise;
+        }
+      }
+    } else {
+      // 사용자 정의 클래스
+      const callee = yield* this.evaluateNode(expr.callee);
+      if (this.builtins.isSimulatedClass(callee)) {
+        return this.instantiateClass(callee, args);
+      }
+    }
+
+    throw new RuntimeError(
+      `'new ${expr.callee.type}' 생성자를 지원하지 않습니다`,
+    );
+  }
+
+  /**
+   * MessageChannel 생성
+   * 두 포트는 서로 연결되어 있어 한쪽의 postMessage가 반대편 포트의 message 이벤트가 됨
+   */
+  private createMessageChannel(): SimulatedMessageChannel {
+    const channelId = nanoid(8);
+    const createPort = (name: string): SimulatedMessagePort => ({
+      __isSimulatedMessagePort: true,
+      id: `${channelId}_${name}`,
+      channelId,
+      name,
+      onmessage: null,
+      entangled: null,
+      started: false,
+      pendingMessages: [],
+    });
+
+    const channel: SimulatedMessageChannel = {
+      id: channelId,
+      port1: createPort("port1"),
+      port2: createPort("port2"),
+    };
+    channel.port1.entangled = channel.port2;
+    channel.port2.entangled = channel.port1;
+
+    this.messageChannels.set(channelId, channel);
+    this.recordStep("new MessageChannel() 생성");
+    return channel;
+  }
+
+  /**
+   * port.postMessage 처리
+   * 구조화된 복제본이 반대편 포트로 가며, 그 포트가 시작 전이면 포트 메시지 큐에 보관됨
+   */
+  private postPortMessage(
+    port: SimulatedMessagePort,
+    data: unknown,
+  ): undefined {
+    const message = this.cloneMessage(data);
+    const target = port.entangled;
+
+    if (!target) {
+      this.recordStep(`${port.name}.postMessage(): 닫힌 포트 — 메시지 버림`);
+      return undefined;
+    }
+
+    target.pendingMessages.push(message);
+    if (target.started) {
+      this.flushPortMessages(target);
+      this.recordStep(
+        `${port.name}.postMessage() → 구조화된 복제 후 ${target.name}의 message 태스크 예약`,
+      );
+    } else {
+      this.recordStep(
+        `${port.name}.postMessage() → ${target.name}가 시작 전이라 포트 메시지 큐에 보관 (start() 또는 onmessage 필요)`,
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * 포트 시작 (start() 또는 onmessage 설정)
+   */
+  private startPort(port: SimulatedMessagePort): void {
+    if (port.started) return;
+    port.started = true;
+    this.flushPortMessages(port);
+  }
+
+  /**
+   * 포트 메시지 큐의 메시지를 message 태스크로 이동
+   */
+  private flushPortMessages(port: SimulatedMessagePort): void {
+    for (const message of port.pendingMessages.splice(0)) {
+      this.builtins.queueInternalTask(
+        "MessageChannel",
+        `${port.name} message`,
+        () => {
+          // 닫힌 포트로 온 메시지는 전달되지 않음
+          if (!port.entangled) {
+            this.recordStep(
+              `태스크 실행: ${port.name} message — 닫힌 포트라 무시`,
+            );
+            return;
+          }
+          this.recordStep(`태스크 실행: message 이벤트 (${port.name})`);
+          this.dispatchMessage(port, message);
+        },
+      );
+    }
+  }
+
+  /**
+   * port.close(): 두 포트의 연결을 끊고 전달 전인 메시지를 버림
+   */
+  private closePort(port: SimulatedMessagePort): undefined {
+    const other = port.entangled;
+    port.entangled = null;
+    port.pendingMessages = [];
+    if (other) {
+      other.entangled = null;
+      other.pendingMessages = [];
+    }
+
+    this.recordStep(`${port.name}.close() — 채널 연결 해제`);
+    return undefined;
+  }
+
+  /**
+   * new MutationObserver(callback) 처리
+   */
+  private createMutationObserver(callback: unknown): SimulatedMutationObserver {
+    if (!this.isClosure(callback)) {
+      throw this.createThrownError(
+        this.createError(
+          "TypeError",
+          "MutationObserver 생성자의 인자는 함수여야 합니다",
+        ),
+      );
+    }
+
+    this.recordStep("new MutationObserver() 생성");
+    return {
+      __isSimulatedMutationObserver: true,
+      callback,
+      records: [],
+    };
+  }
+
+  /**
+   * observer.observe(target, options) 처리
+   * attributeFilter/attributeOldValue만 지정해도 attributes 관찰로 간주
+   */
+  private observeMutations(
+    observer: SimulatedMutationObserver,
+    target: unknown,
+    options: unknown,
+  ): undefined {
+    if (!this.builtins.isSimulatedElement(target)) {
+      throw this.createThrownError(
+        this.createError(
+          "TypeError",
+          "MutationObserver.observe()의 대상은 DOM 요소여야 합니다",
+        ),
+      );
+    }
+
+    const init = (options ?? {}) as MutationObserverOptions;
+    const attributes =
+      init.attributes === true ||
+      (init.attributes === undefined &&
+        (init.attributeFilter !== undefined ||
+          init.attributeOldValue === true));
+    if (!attributes && init.childList !== true) {
+      throw this.createThrownError(
+        this.createError(
+          "TypeError",
+          "MutationObserver.observe() 옵션에 attributes 또는 childList가 필요합니다",
+        ),
+      );
+    }
+
+    this.dom.observe(observer, target, { ...init, attributes });
+    this.recordStep(`MutationObserver.observe(${this.dom.describe(target)})`);
+    return undefined;
+  }
+
+  /**
+   * DOM 변경 후 MutationObserver 통지 마이크로태스크 큐잉
+   * 이미 큐에 있으면 기록만 쌓이고, 한 태스크 안의 변경은 콜백 한 번으로 합쳐짐
+   */
+  private queueMutationObserverMicrotask(): void {
+    if (this.mutationMicrotaskQueued) return;
+    this.mutationMicrotaskQueued = true;
+
+    this.builtins.scheduleInternalJob(
+      "MutationObserver",
+      "MutationObserver callback",
+      () => {
+        this.mutationMicrotaskQueued = false;
+
+        for (const observer of this.dom.getPendingObservers()) {
+          const records = observer.records;
+          observer.records = [];
+          this.invokeMicrotaskCallback(
+            observer.callback,
+            [records, observer],
+            "MutationObserver",
+            observer,
+          );
+        }
+      },
+    );
+    this.recordStep("DOM 변경 → MutationObserver 마이크로태스크 큐잉");
+  }
+
+  /**
+   * DOM 요소 속성 할당 (id, className, textContent)
+   * 관찰 중인 MutationObserver가 있으면 통지 마이크로태스크를 큐잉
+   */
+  private setElementProperty(
+    element: SimulatedElement,
+    prop: string,
+    value: unknown,
+  ): void {
+    const text = String(value);
+    const observed =
+      prop === "textContent"
+        ? this.dom.setTextContent(element, text)
+        : this.dom.setAttribute(
+            element,
+            prop === "className" ? "class" : prop,
+            text,
+          );
+
+    this.recordStep(`${this.dom.describe(element)}.${prop} = '${text}'`);
+    if (observed) this.queueMutationObserverMicrotask();
+  }
+
+  /**
+   * new Worker(url) 처리
+   * 워커는 자기 콜스택/큐/가상 시계를 가진 별도 에이전트이며,
+   * 스크립트는 워커 이벤트 루프의 첫 태스크로 실행됨
+   */
+  private createWorker(url: string): SimulatedWorker {
+    const fileName = url.replace(/^\.\//, "");
+    const source = this.config.workerScripts[fileName];
+    const name = `${fileName} #${this.workers.length + 1}`;
+    const handle: SimulatedWorker = {
+      __isSimulatedWorker: true,
+      name,
+      onmessage: null,
+      onerror: null,
+    };
+
+    // 스크립트를 불러오지 못하면 프로그램은 계속되고 Worker에 error 이벤트가 비동기로 전달됨
+    if (source === undefined) {
+      return this.failWorker(
+        handle,
+        url,
+        `워커 스크립트 '${url}'을(를) 찾을 수 없습니다`,
+      );
+    }
+
+    const parsed = new CodeParser().parse(source);
+    if (!parsed.success || !parsed.ast) {
+      const [error] = parsed.errors;
+      return this.failWorker(
+        handle,
+        url,
+        `${fileName} 파싱 에러 (${error?.line}번째 줄): ${error?.message}`,
+      );
+    }
+
+    const interpreter = new ASTInterpreter(this.config, this, name);
+    this.workers.push({ handle, interpreter, terminated: false });
+
+    interpreter.startWorker(
+      parsed.ast,
+      parsed.sourceMap,
+      this.eventLoop.getCurrentTime(),
+    );
+    this.recordStep(`new Worker('${url}') → ${name} 생성 (별도 이벤트 루프)`);
+    return handle;
+  }
+
+  /**
+   * 스크립트를 불러오지 못한 워커: 에이전트 없이 핸들만 반환하고 error 이벤트를 태스크로 예약
+   */
+  private failWorker(
+    handle: SimulatedWorker,
+    url: string,
+    message: string,
+  ): SimulatedWorker {
+    this.workers.push({
+      handle,
+      interpreter: new ASTInterpreter(this.config, this, handle.name),
+      terminated: true,
+    });
+
+    this.builtins.scheduleInternalTask(
+      "worker error",
+      `${handle.name} error`,
+      0,
+      () => {
+        this.recordStep(`태스크 실행: error 이벤트 (${handle.name})`);
+        this.dispatchWorkerError(handle, message);
+      },
+    );
+    this.recordStep(`new Worker('${url}') → 스크립트 로드 실패 (error 예약)`);
+    return handle;
+  }
+
+  /**
+   * Worker 핸들에 error 이벤트 디스패치 (onerror 다음 addEventListener 리스너)
+   * 처리하는 리스너가 없으면 콘솔에 에러 출력
+   */
+  private dispatchWorkerError(handle: SimulatedWorker, message: string): void {
+    const listeners = [
+      handle.onerror,
+      ...(this.workerErrorListeners.get(handle) ?? []),
+    ].filter((listener) => this.isClosure(listener));
+
+    const event = { type: "error", message, target: handle };
+    for (const listener of listeners) {
+      this.invokeListener(listener, event, handle, "error listener");
+
+      if (!this.eventLoop.isMicrotaskQueueEmpty()) {
+        this.recordStep(
+          "마이크로태스크 체크포인트 (리스너 종료 후 콜스택이 비어 있음)",
+        );
+        this.drainMicrotasks();
+      }
+    }
+
+    if (listeners.length === 0) {
+      this.eventLoop.addConsoleLog({
+        timestamp: this.eventLoop.getCurrentTime(),
+        type: "error",
+        message,
+      });
+      this.recordStep(`error 핸들러 없음: ${message}`);
+    }
+  }
+
+  /**
+   * Worker 핸들의 error 리스너 등록/제거
+   */
+  private updateWorkerErrorListener(
+    handle: SimulatedWorker,
+    method: string,
+    callback: unknown,
+  ): undefined {
+    if (!this.isClosure(callback)) return undefined;
+
+    const listeners = this.workerErrorListeners.get(handle) ?? [];
+    this.workerErrorListeners.set(handle, listeners);
+    const index = listeners.indexOf(callback);
+    if (method === "addEventListener" && index === -1) {
+      listeners.push(callback);
+    } else if (method === "removeEventListener" && index !== -1) {
+      listeners.splice(index, 1);
+    }
+
+    this.recordStep(`${method}('error')`);
+    return undefined;
+  }
+
+  /**
+   * 워커 에이전트 시작: 메인 스레드 시계에 맞춘 뒤 스크립트 실행을 첫 태스크로 예약
+   */
+  private startWorker(
+    ast: Node,
+    sourceMap: Map<number, number>,
+    time: number,
+  ): void {
+    this.sourceMap = sourceMap;
+    this.eventLoop.syncClock(time);
+    this.eventLoop.setConsoleSink((log) =>
+      this.host?.eventLoop.addConsoleLog({
+        ...log,
+        message: `[${this.agentName}] ${log.message}`,
+      }),
+    );
+
+    this.builtins.scheduleInternalTask(
+      "worker script",
+      `${this.agentName} 스크립트`,
+      0,
+      () => {
+        this.recordStep("태스크 실행: 워커 스크립트 평가");
+        this.runScript(ast);
+        this.recordStep("워커 스크립트 실행 완료");
+      },
+    );
+  }
+
+  /**
+   * 이 인터프리터가 메인 스레드에서 관리하는 워커 에이전트 정보
+   */
+  private findWorker(
+    match: (worker: WorkerAgent) => boolean,
+  ): WorkerAgent | undefined {
+    return (this.host ?? this).workers.find(match);
+  }
+
+  /**
+   * postMessage 처리
+   * 메시지를 구조화된 복제로 복사해 받는 에이전트의 태스크로 예약
+   * (메인 → 워커: worker.postMessage, 워커 → 메인: postMessage/self.postMessage)
+   */
+  private postAgentMessage(data: unknown, worker?: SimulatedWorker): undefined {
+    const agent = worker
+      ? this.findWorker((entry) => entry.handle === worker)
+      : this.findWorker((entry) => entry.interpreter === this);
+    const target = worker ? worker.name : "메인 스레드";
+    const label = worker ? "worker.postMessage" : "postMessage";
+
+    if (!agent || agent.terminated) {
+      this.recordStep(`${label}(): 종료된 워커 — 메시지 버림`);
+      return undefined;
+    }
+
+    const message = this.cloneMessage(data);
+    const receiver = worker ? agent.interpreter : (this.host ?? this);
+    receiver.receiveMessage(
+      worker ? (agent.interpreter.workerScope as object) : agent.handle,
+      message,
+      this.eventLoop.getCurrentTime(),
+      this.agentName,
+    );
+
+    this.recordStep(`${label}() → 구조화된 복제 후 ${target}로 전송`);
+    return undefined;
+  }
+
+  /**
+   * 구조화된 복제 (복제할 수 없는 값은 DataCloneError)
+   */
+  private cloneMessage(data: unknown): unknown {
+    try {
+      return structuredCloneValue(data);
+    } catch (error) {
+      if (error instanceof DataCloneError) {
+        throw this.createThrownError(
+          this.instantiateClass(
+            this.builtinGlobals.get("DOMException") as SimulatedClass,
+            [error.message, "DataCloneError"],
+          ),
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 다른 에이전트가 보낸 메시지를 이 에이전트의 message 태스크로 예약
+   * 보낸 쪽 시각에 도착하며, 받는 쪽 시계가 더 늦으면 바로 실행 가능
+   */
+  private receiveMessage(
+    target: object,
+    data: unknown,
+    sentAt: number,
+    from: string,
+  ): void {
+    this.builtins.scheduleInternalTask(
+      "message",
+      `message from ${from}`,
+      Math.max(0, sentAt - this.eventLoop.getCurrentTime()),
+      () => {
+        this.recordStep(
+          `태스크 실행: message 이벤트 (${from} → ${this.agentName})`,
+        );
+        this.dispatchMessage(target, data);
+      },
+    );
+  }
+
+  /**
+   * message 이벤트 디스패치 (onmessage와 addEventListener 리스너를 등록 순서대로)
+   * 워커 안에서는 전역 onmessage 함수도 핸들러로 사용
+   */
+  private dispatchMessage(target: object, data: unknown): void {
+    const handler = (target as { onmessage: Closure | null }).onmessage;
+    const entries = this.messageListeners.get(target) ?? [];
+    const globalHandler =
+      target === this.workerScope &&
+      !entries.includes("onmessage") &&
+      this.context.hasVariable("onmessage")
+        ? this.lookupVariable("onmessage")
+        : null;
+    const listeners = [
+      globalHandler,
+      ...entries.map((entry) => (entry === "onmessage" ? handler : entry)),
+    ].filter((listener) => this.isClosure(listener));
+
+    const event = { type: "message", data, target };
+    for (const listener of listeners) {
+      this.invokeListener(listener, event, target, "message listener");
+
+      if (!this.eventLoop.isMicrotaskQueueEmpty()) {
+        this.recordStep(
+          "마이크로태스크 체크포인트 (리스너 종료 후 콜스택이 비어 있음)",
+        );
+        this.drainMicrotasks();
+      }
+    }
+
+    if (listeners.length === 0) {
+      this.recordStep("message 핸들러 없음 — 메시지 무시");
+    }
+  }
+
+  /**
+   * message 리스너 등록/제거 (Worker 핸들 또는 self)
+   */
+  private updateMessageListener(
+    target: object,
+    method: string,
+    [type, callback]: unknown[],
+  ): undefined {
+    if (type !== "message" || !this.isClosure(callback)) return undefined;
+
+    const listeners = this.getMessageListeners(target);
+    const index = listeners.indexOf(callback);
+    if (method === "addEventListener" && index === -1) {
+      listeners.push(callback);
+    } else if (method === "removeEventListener" && index !== -1) {
+      listeners.splice(index, 1);
+    }
+
+    this.recordStep(`${method}('message')`);
+    return undefined;
+  }
+
+  /**
+   * onmessage 핸들러 설정
+   * 처음 설정될 때 리스너 목록에 자리를 잡으므로 addEventListener와 등록 순서대로 호출됨
+   */
+  private setMessageHandler(
+    target: SimulatedMessagePort | SimulatedWorker | SimulatedWorkerScope,
+    value: unknown,
+  ): unknown {
+    target.onmessage = this.isClosure(value) ? value : null;
+
+    const listeners = this.getMessageListeners(target);
+    if (target.onmessage && !listeners.includes("onmessage")) {
+      listeners.push("onmessage");
+    }
+
+    if (this.builtins.isSimulatedMessagePort(target) && target.onmessage) {
+      this.recordStep(`${target.name}.onmessage 등록 (포트 시작)`);
+      this.startPort(target);
+    } else {
+      this.recordStep("onmessage 등록");
+    }
+    return value;
+  }
+
+  /**
+   * message 이벤트를 받는 객체인지 확인 (MessagePort, Worker, self)
+   */
+  private isMessageTarget(
+    value: unknown,
+  ): value is SimulatedMessagePort | SimulatedWorker | SimulatedWorkerScope {
+    return (
+      this.builtins.isSimulatedMessagePort(value) ||
+      this.builtins.isSimulatedWorker(value) ||
+      this.builtins.isSimulatedWorkerScope(value)
+    );
+  }
+
+  /**
+   * 대상의 message 리스너 목록 ("onmessage"는 onmessage 핸들러가 처음 설정된 위치)
+   */
+  private getMessageListeners(target: object): (Closure | "onmessage")[] {
+    const listeners = this.messageListeners.get(target) ?? [];
+    this.messageListeners.set(target, listeners);
+    return listeners;
+  }
+
+  /**
+   * 워커 종료 (worker.terminate() 또는 워커 안의 close())
+   * 대기 중인 태스크와 타이머는 모두 버려짐
+   */
+  private terminateWorker(agent: WorkerAgent | undefined): undefined {
+    if (!agent || agent.terminated) return undefined;
+
+    agent.terminated = true;
+
+    // 워커 스스로 close()하면 현재 태스크는 끝까지 실행됨
+    if (agent.interpreter !== this) {
+      const eventLoop = agent.interpreter.eventLoop;
+      const time = eventLoop.getCurrentTime();
+      eventLoop.reset();
+      eventLoop.syncClock(time);
+    }
+
+    this.recordStep(`${agent.handle.name} 종료 — 대기 중인 작업 폐기`);
+    return undefined;
+  }
+
+  private callUserFunction(
+    closure: Closure,
+    args: unknown[],
+    name: string,
+    thisArg?: unknown,
+  ): unknown {
+    // getter도 사용자 코드이므로 부작용 없는 평가에서는 실행하지 않음
+    if (this.inspecting) {
+      throw new RuntimeError(`${name}은(는) 식 평가 중에 호출할 수 없습니다`);
+    }
+
+    // 콜스택 깊이 체크
+    if (this.eventLoop.getCallStackDepth() >= this.config.maxCallStackDepth) {
+      throw new ExecutionLimitError("콜스택 깊이 초과 (재귀 호출 제한)");
+    }
+
+    this.eventLoop.pushToCallStack({
+      functionName: `${name}()`,
+      location: this.getCurrentLocation(),
+      variables: this.context.getVariablesSnapshot(),
+    });
+    this.recordCallStep(`함수 호출: ${name}()`);
+
+    let result: unknown;
+    try {
+      result = this.executeClosure(closure, args, thisArg);
+    } finally {
+      // 예외로 빠져나가도 프레임은 제거
+      this.flushCallStep();
+      this.eventLoop.popFromCallStack();
+    }
+
+    this.recordStep(`함수 종료: ${name}()`);
+
+    return result;
+  }
+
+  private *evaluateMemberExpression(node: Node): Evaluation {
+    const member = node as unknown as {
+      object: Node;
+      property: Node;
+      computed: boolean;
+    };
+
+    // super.prop 접근 (getter는 현재 this로 호출)
+    if (member.object.type === "Super") {
+      const prop = yield* this.evaluateKey(member.property, member.computed);
+      return Reflect.get(
+        this.getSuperTarget(),
+        prop,
+        this.getInitializedThis(),
+      );
+    }
+
+    const obj = (yield* this.evaluateNode(member.object)) as Record<
+      string,
+      unknown
+    >;
+    if (!obj) return undefined;
+
+    if (this.inspecting && this.context.isLiveObject(obj)) {
+      this.readLiveObject = true;
+    }
+
+    const prop = yield* this.evaluateKey(member.property, member.computed);
+
+    // MessageChannel 포트 속성 접근
+    if (typeof obj === "object" && "port1" in obj && "port2" in obj) {
+      const channel = obj as unknown as SimulatedMessageChannel;
+      if (prop === "port1") return channel.port1;
+      if (prop === "port2") return channel.port2;
+    }
+
+    return obj[prop];
+  }
+
+  private evaluateIdentifier(node: Node): unknown {
+    const id = node as unknown as { name: string };
+
+    // 특수 식별자
+    if (id.name === "undefined") return undefined;
+    if (id.name === "null") return null;
+    if (id.name === "true") return true;
+    if (id.name === "false") return false;
+
+    return this.lookupVariable(id.name);
+  }
+
+  /**
+   * 변수 조회 (스코프 체인에 없으면 내장 전역 값)
+   */
+  private lookupVariable(name: string): unknown {
+    if (!this.context.hasVariable(name) && this.builtinGlobals.has(name)) {
+      return this.builtinGlobals.get(name);
+    }
+    return this.context.getVariable(name);
+  }
+
+  private *evaluateBinaryExpression(node: Node): Evaluation {
+    const expr = node as unknown as {
+      left: Node;
+      right: Node;
+      operator: string;
+    };
+    const left = yield* this.evaluateNode(expr.left);
+    const right = yield* this.evaluateNode(expr.right);
+
+    switch (expr.operator) {
+      case "+":
+        return (left as number) + (right as number);
+      case "-":
+        return (left as number) - (right as number);
+      case "*":
+        return (left as number) * (right as number);
+      case "/":
+        return (left as number) / (right as number);
+      case "%":
+        return (left as number) % (right as number);
+      case "**":
+        return (left as number) ** (right as number);
+      case "==":
+        return left === right;
+      case "!=":
+        return left !== right;
+      case "===":
+        return left === right;
+      case "!==":
+        return left !== right;
+      case "<":
+        return (left as number) < (right as number);
+      case ">":
+        return (left as number) > (right as number);
+      case "<=":
+        return (left as number) <= (right as number);
+      case ">=":
+        return (left as number) >= (right as number);
+      case "instanceof":
+        return this.isInstanceOf(left, right);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * instanceof 연산 (클래스의 프로토타입이 객체의 프로토타입 체인에 있는지)
+   */
+  private isInstanceOf(value: unknown, target: unknown): boolean {
+    if (this.builtins.isSimulatedClass(target)) {
+      return (
+        value !== null &&
+        typeof value === "object" &&
+        Object.prototype.isPrototypeOf.call(target.prototype, value)
+      );
+    }
+
+    if (typeof target === "function") {
+      return value instanceof target;
+    }
+
+    throw this.createThrownError(
+      this.createError(
+        "TypeError",
+        "Right-hand side of 'instanceof' is not callable",
+      ),
+    );
+  }
+
+  private *evaluateUnaryExpression(node: Node): Evaluation {
+    const expr = node as unknown as { operator: string; argument: Node };
+    const arg = yield* this.evaluateNode(expr.argument);
+
+    switch (expr.operator) {
+      case "!":
+        return !arg;
+      case "-":
+        return -(arg as number);
+      case "+":
+        return +(arg as number);
+      case "typeof":
+        return typeof arg;
+      default:
+        return undefined;
+    }
+  }
+
+  private *evaluateAssignmentExpression(node: Node): Evaluation {
+    const expr = node as unknown as {
+      left: Node;
+      right: Node;
+      operator: string;
+    };
+
+    // MemberExpression 할당 (port.onmessage = callback)
+    if (expr.left.type === "MemberExpression") {
+      const member = expr.left as unknown as {
+        object: Node;
+        property: Node;
+        computed: boolean;
+      };
+      const obj = yield* this.evaluateNode(member.object);
+      const propName = yield* this.evaluateKey(
+        member.property,
+        member.computed,
+      );
+      const value = yield* this.evaluateNode(expr.right);
+
+      // onmessage 핸들러 할당 (MessagePort는 포트도 시작시킴)
+      if (
+        propName === "onmessage" &&
+        expr.operator === "=" &&
+        this.isMessageTarget(obj)
+      ) {
+        return this.setMessageHandler(obj, value);
+      }
+
+      // 일반 객체 속성 할당
+      if (obj && typeof obj === "object") {
+        const target = obj as Record<string, unknown>;
+        const newValue =
+          expr.operator === "="
+            ? value
+            : this.applyCompoundOperator(
+                expr.operator,
+                target[propName],
+                value,
+              );
+
+        // DOM 변경 (MutationObserver 통지 대상)
+        if (
+          this.builtins.isSimulatedElement(obj) &&
+          OBSERVED_ELEMENT_PROPERTIES.has(propName)
+        ) {
+          this.setElementProperty(obj, propName, newValue);
+          return target[propName];
+        }
+
+        target[propName] = newValue;
+        return newValue;
+      }
+
+      return value;
+    }
+
+    const value = yield* this.evaluateNode(expr.right);
+
+    // 구조 분해 할당 ([a, b] = [b, a], ({ x } = obj))
+    if (
+      expr.left.type === "ObjectPattern" ||
+      expr.left.type === "ArrayPattern"
+    ) {
+      yield* this.bindPattern(expr.left, value, null);
+      this.recordStep(`구조 분해 할당: ${this.describeBindings(expr.left)}`);
+      return value;
+    }
+
+    if (expr.left.type === "Identifier") {
+      const name = (expr.left as unknown as { name: string }).name;
+
+      if (expr.operator === "=") {
+        this.context.setVariable(name, value);
+      } else {
+        const newValue = this.applyCompoundOperator(
+          expr.operator,
+          this.context.getVariable(name),
+          value,
+        );
+
+        this.context.setVariable(name, newValue);
+        return newValue;
+      }
+
+      return value;
+    }
+
+    return value;
+  }
+
+  /**
+   * 복합 할당 연산 (+=, -= 등)
+   */
+  private applyCompoundOperator(
+    operator: string,
+    current: unknown,
+    value: unknown,
+  ): unknown {
+    switch (operator) {
+      case "+=":
+        return (current as number) + (value as number);
+      case "-=":
+        return (current as number) - (value as number);
+      case "*=":
+        return (current as number) * (value as number);
+      case "/=":
+        return (current as number) / (value as number);
+      case "%=":
+        return (current as number) % (value as number);
+      case "**=":
+        return (current as number) ** (value as number);
+      default:
+        return value;
+    }
+  }
+
+  private *evaluateUpdateExpression(node: Node): Evaluation {
+    const expr = node as unknown as {
+      argument: Node;
+      operator: string;
+      prefix: boolean;
+    };
+
+    if (expr.argument.type === "Identifier") {
+      const name = (expr.argument as unknown as { name: string }).name;
+      const current = this.context.getVariable(name) as number;
+      const newValue = expr.operator === "++" ? current + 1 : current - 1;
+
+      this.context.setVariable(name, newValue);
+
+      return expr.prefix ? newValue : current;
+    }
+
+    // 객체 속성 증감 (this.count++ 등)
+    if (expr.argument.type === "MemberExpression") {
+      const member = expr.argument as unknown as {
+        object: Node;
+        property: Node;
+        computed: boolean;
+      };
+      const obj = (yield* this.evaluateNode(member.object)) as Record<
+        string,
+        unknown
+      >;
+      const propName = yield* this.evaluateKey(
+        member.property,
+        member.computed,
+      );
+      const current = Number(obj[propName]);
+      const newValue = expr.operator === "++" ? current + 1 : current - 1;
+
+      obj[propName] = newValue;
+
+      return expr.prefix ? newValue : current;
+    }
+
+    return undefined;
+  }
+
+  private *evaluateLogicalExpression(node: Node): Evaluation {
+    const expr = node as unknown as {
+      left: Node;
+      right: Node;
+      operator: string;
+    };
+
+    const left = yield* this.evaluateNode(expr.left);
+
+    switch (expr.operator) {
+      case "&&":
+        return left ? yield* this.evaluateNode(expr.right) : left;
+      case "||":
+        return left ? left : yield* this.evaluateNode(expr.right);
+      case "??":
+        return left != null ? left : yield* this.evaluateNode(expr.right);
+      default:
+        return undefined;
+    }
+  }
+
+  private *evaluateConditionalExpression(node: Node): Evaluation {
+    const expr = node as unknown as {
+      test: Node;
+      consequent: Node;
+      alternate: Node;
+    };
+    const test = yield* this.evaluateNode(expr.test);
+    return test
+      ? yield* this.evaluateNode(expr.consequent)
+      : yield* this.evaluateNode(expr.alternate);
+  }
+
+  private *evaluateIfStatement(node: Node): Evaluation<void> {
+    const stmt = node as unknown as {
+      test: Node;
+      consequent: Node;
+      alternate?: Node;
+    };
+    const test = yield* this.evaluateNode(stmt.test);
+
+    if (test) {
+      yield* this.evaluateNode(stmt.consequent);
+    } else if (stmt.alternate) {
+      yield* this.evaluateNode(stmt.alternate);
+    }
+  }
+
+  private *evaluateForStatement(node: Node): Evaluation<void> {
+    const stmt = node as unknown as {
+      init?: Node;
+      test?: Node;
+      update?: Node;
+      body: Node;
+    };
+    const labels = this.takePendingLabels();
+
+    this.context.enterScope("block");
+    const loopId = `for_${node.start}`;
+    this.loopCounters.set(loopId, 0);
+
+    if (stmt.init) {
+      yield* this.evaluateNode(stmt.init);
+    }
+
+    // let 선언은 반복마다 새 바인딩 (클로저가 반복별 값을 캡처)
+    const perIterationNames = this.getPerIterationNames(stmt.init);
+    if (perIterationNames.length > 0) {
+      this.context.copyScope(perIterationNames);
+    }
+
+    while (true) {
+      this.chargeLoopIteration(loopId);
+
+      if (stmt.test) {
+        const test = yield* this.evaluateNode(stmt.test);
+        if (!test) break;
+      }
+
+      if (yield* this.evaluateLoopBody(stmt.body, labels)) break;
+
+      if (perIterationNames.length > 0) {
+        this.context.copyScope(perIterationNames);
+      }
+
+      if (stmt.update) {
+        yield* this.evaluateNode(stmt.update);
+      }
+    }
+
+    this.context.exitScope();
+  }
+
+  /**
+   * for 초기화 구문의 let 변수 이름 (반복별 바인딩 대상)
+   */
+  private getPerIterationNames(init?: Node): string[] {
+    if (init?.type !== "VariableDeclaration") return [];
+
+    const decl = init as unknown as {
+      kind: string;
+      declarations: Array<{ id: Node }>;
+    };
+    if (decl.kind !== "let") return [];
+
+    return decl.declarations.flatMap((declarator) =>
+      this.collectPatternNames(declarator.id),
+    );
+  }
+
+  private *evaluateWhileStatement(node: Node): Evaluation<void> {
+    const stmt = node as unknown as { test: Node; body: Node };
+    const labels = this.takePendingLabels();
+    const loopId = `while_${node.start}`;
+    this.loopCounters.set(loopId, 0);
+
+    while (true) {
+      this.chargeLoopIteration(loopId);
+
+      const test = yield* this.evaluateNode(stmt.test);
+      if (!test) break;
+
+      if (yield* this.evaluateLoopBody(stmt.body, labels)) break;
+    }
+  }
+
+  private *evaluateDoWhileStatement(node: Node): Evaluation<void> {
+    const stmt = node as unknown as { test: Node; body: Node };
+    const labels = this.takePendingLabels();
+    const loopId = `dowhile_${node.start}`;
+    this.loopCounters.set(loopId, 0);
+
+    while (true) {
+      this.chargeLoopIteration(loopId);
+
+      if (yield* this.evaluateLoopBody(stmt.body, labels)) break;
+
+      const test = yield* this.evaluateNode(stmt.test);
+      if (!test) break;
+    }
+  }
+
+  /**
+   * for...of 문 평가 (배열, 문자열, 제너레이터)
+   */
+  private *evaluateForOfStatement(node: Node): Evaluation<void> {
+    const stmt = node as unknown as { left: Node; right: Node; body: Node };
+    const labels = this.takePendingLabels();
+    const loopId = `forof_${node.start}`;
+    this.loopCounters.set(loopId, 0);
+
+    const iterable = yield* this.evaluateNode(stmt.right);
+    const iterator = this.getIterator(iterable);
+
+    while (true) {
+      this.chargeLoopIteration(loopId);
+
+      const { value, done } = iterator.next();
+      if (done) break;
+
+      // 반복마다 새 블록 스코프 (const/let 바인딩)
+      this.context.enterScope("block");
+      yield* this.assignLoopTarget(stmt.left, value);
+      const stop = yield* this.evaluateLoopBody(stmt.body, labels);
+      this.context.exitScope();
+
+      if (stop) {
+        // break/return으로 빠져나가면 이터레이터 정리 (제너레이터의 finally 실행)
+        iterator.close?.();
+        break;
+      }
+    }
+  }
+
+  /**
+   * for...in 문 평가 (열거 가능한 속성 키)
+   */
+  private *evaluateForInStatement(node: Node): Evaluation<void> {
+    const stmt = node as unknown as { left: Node; right: Node; body: Node };
+    const labels = this.takePendingLabels();
+    const loopId = `forin_${node.start}`;
+    this.loopCounters.set(loopId, 0);
+
+    const target = yield* this.evaluateNode(stmt.right);
+    const keys: string[] = [];
+
+    if (target !== null && target !== undefined) {
+      for (const key in Object(target)) {
+        keys.push(key);
+      }
+    }
+
+    for (const key of keys) {
+      this.chargeLoopIteration(loopId);
+
+      this.context.enterScope("block");
+      yield* this.assignLoopTarget(stmt.left, key);
+      const stop = yield* this.evaluateLoopBody(stmt.body, labels);
+      this.context.exitScope();
+
+      if (stop) break;
+    }
+  }
+
+  /**
+   * for...of/for...in 좌변에 반복 값 바인딩
+   */
+  private *assignLoopTarget(left: Node, value: unknown): Evaluation<void> {
+    if (left.type === "VariableDeclaration") {
+      const decl = left as unknown as {
+        kind: "var" | "let" | "const";
+        declarations: Array<{ id: Node }>;
+      };
+      const id = decl.declarations[0].id;
+
+      yield* this.bindPattern(id, value, decl.kind);
+      this.recordStep(`반복 변수: ${decl.kind} ${this.describeBindings(id)}`);
+      return;
+    }
+
+    yield* this.bindPattern(left, value, null);
+    if (left.type !== "MemberExpression") {
+      this.recordStep(`반복 변수: ${this.describeBindings(left)}`);
+    }
+  }
+
+  /**
+   * 루프 본문 평가
+   * 루프를 끝내야 하면 true (break, return, 바깥 레이블로의 break/continue)
+   */
+  private *evaluateLoopBody(body: Node, labels: string[]): Evaluation<boolean> {
+    yield* this.evaluateNode(body);
+
+    if (this.hasReturned) return true;
+    if (!this.pendingJump) return false;
+
+    const { type, label } = this.pendingJump;
+
+    // 바깥 루프를 가리키는 레이블은 그대로 전파
+    if (label !== null && !labels.includes(label)) return true;
+
+    this.pendingJump = null;
+    return type === "break";
+  }
+
+  /**
+   * 이터레이터 생성 (for...of용)
+   * 배열은 인덱스로 순회하므로 순회 중 추가된 요소도 방문함
+   */
+  private getIterator(iterable: unknown): {
+    next: () => { value: unknown; done: boolean };
+    close?: () => void;
+  } {
+    if (Array.isArray(iterable) || typeof iterable === "string") {
+      let index = 0;
+      return {
+        next: () =>
+          index < iterable.length
+            ? { value: iterable[index++], done: false }
+            : { value: undefined, done: true },
+      };
+    }
+
+    if (this.builtins.isSimulatedGenerator(iterable)) {
+      return {
+        next: () => this.resumeGenerator(iterable, "next", undefined),
+        close: () => {
+          this.resumeGenerator(iterable, "return", undefined);
+        },
+      };
+    }
+
+    throw this.createThrownError(
+      this.createError(
+        "TypeError",
+        `${this.stringify(iterable)} is not iterable`,
+      ),
+    );
+  }
+
+  /**
+   * switch 문 평가
+   * 일치하는 case부터 break를 만날 때까지 이어서 실행 (fall-through)
+   */
+  private *evaluateSwitchStatement(node: Node): Evaluation<void> {
+    const stmt = node as unknown as {
+      discriminant: Node;
+      cases: Array<{ test: Node | null; consequent: Node[] }>;
+    };
+    const labels = this.takePendingLabels();
+    const discriminant = yield* this.evaluateNode(stmt.discriminant);
+
+    // switch 전체가 하나의 블록 스코프
+    this.context.enterScope("block");
+
+    let matchIndex = -1;
+    for (let i = 0; i < stmt.cases.length; i++) {
+      const test = stmt.cases[i].test;
+      if (test && (yield* this.evaluateNode(test)) === discriminant) {
+        matchIndex = i;
+        break;
+      }
+    }
+
+    if (matchIndex === -1) {
+      matchIndex = stmt.cases.findIndex((c) => c.test === null);
+    }
+
+    if (matchIndex !== -1) {
+      const matched = stmt.cases[matchIndex];
+      this.recordStep(
+        matched.test
+          ? `switch: case ${this.stringify(discriminant)} 일치`
+          : "switch: default 실행",
+      );
+
+      cases: for (const switchCase of stmt.cases.slice(matchIndex)) {
+        for (const statement of switchCase.consequent) {
+          this.setLineFromNode(statement);
+          yield* this.evaluateNode(statement);
+          if (this.hasReturned || this.pendingJump) break cases;
+        }
+      }
+    }
+
+    this.context.exitScope();
+
+    // 레이블 없는 break(또는 이 switch의 레이블)는 여기서 소비
+    if (
+      this.pendingJump?.type === "break" &&
+      (this.pendingJump.label === null ||
+        labels.includes(this.pendingJump.label))
+    ) {
+      this.pendingJump = null;
+    }
+  }
+
+  /**
+   * break/continue 문 평가
+   */
+  private evaluateJumpStatement(node: Node): void {
+    const stmt = node as unknown as { label: { name: string } | null };
+    const type = node.type === "BreakStatement" ? "break" : "continue";
+    const label = stmt.label?.name ?? null;
+
+    this.pendingJump = { type, label };
+    this.recordStep(label ? `${type} ${label}` : type);
+  }
+
+  /**
+   * 레이블 문 평가
+   * 루프에 붙은 레이블은 루프가 continue/break 대상으로 사용
+   */
+  private *evaluateLabeledStatement(node: Node): Evaluation<void> {
+    const stmt = node as unknown as { label: { name: string }; body: Node };
+    const label = stmt.label.name;
+
+    this.pendingLabels.push(label);
+    if (stmt.body.type === "LabeledStatement") {
+      yield* this.evaluateNode(stmt.body);
+      return;
+    }
+
+    if (!this.isLabelTarget(stmt.body)) {
+      this.pendingLabels = [];
+    }
+
+    yield* this.evaluateNode(stmt.body);
+
+    // 블록 등에 붙은 레이블: 해당 레이블로의 break를 소비
+    if (
+      this.pendingJump?.type === "break" &&
+      this.pendingJump.label === label
+    ) {
+      this.pendingJump = null;
+    }
+  }
+
+  /**
+   * 레이블 목록을 직접 처리하는 문인지 확인
+   */
+  private isLabelTarget(node: Node): boolean {
+    return [
+      "ForStatement",
+      "WhileStatement",
+      "DoWhileStatement",
+      "ForOfStatement",
+      "ForInStatement",
+      "SwitchStatement",
+    ].includes(node.type);
+  }
+
+  /**
+   * 현재 문에 붙은 레이블 가져오기 (중첩 문에 전달되지 않도록 비움)
+   */
+  private takePendingLabels(): string[] {
+    const labels = this.pendingLabels;
+    this.pendingLabels = [];
+    return labels;
+  }
+
+  private *evaluateReturnStatement(node: Node): Evaluation<void> {
+    const stmt = node as unknown as { argument?: Node };
+
+    if (stmt.argument) {
+      this.returnValue = yield* this.evaluateNode(stmt.argument);
+    } else {
+      this.returnValue = undefined;
+    }
+
+    this.hasReturned = true;
+    this.recordStep(`return ${this.stringify(this.returnValue)}`);
+  }
+
+  private *evaluateArrayExpression(node: Node): Evaluation<unknown[]> {
+    const expr = node as unknown as { elements: (Node | null)[] };
+    const elements: unknown[] = [];
+    for (const el of expr.elements) {
+      // 배열 전개 [...a, ...b]
+      if (el?.type === "SpreadElement") {
+        const spread = el as unknown as { argument: Node };
+        const iterable = yield* this.evaluateNode(spread.argument);
+        elements.push(...this.collectIterable(iterable, `spread_${el.start}`));
+        continue;
+      }
+      elements.push(el ? yield* this.evaluateNode(el) : undefined);
+    }
+    return elements;
+  }
+
+  private *evaluateObjectExpression(
+    node: Node,
+  ): Evaluation<Record<string, unknown>> {
     const expr = node as unknown as {
-      left: Node;
-      right: Node;
-      operator: string;
+      properties: Array<{
+        type: string;
+        key: Node;
+        value: Node;
+        computed: boolean;
+        argument?: Node;
+      }>;
+    };
+
+    const obj: Record<string, unknown> = {};
+
+    for (const prop of expr.properties) {
+      // 객체 전개 { ...source }: 열거 가능한 자체 속성 복사
+      if (prop.type === "SpreadElement" && prop.argument) {
+        const source = yield* this.evaluateNode(prop.argument);
+        if (source !== null && source !== undefined) {
+          Object.assign(obj, source);
+        }
+        continue;
+      }
+
+      const key = yield* this.evaluateKey(prop.key, prop.computed);
+      obj[key] = yield* this.evaluateNode(prop.value);
+    }
+
+    return obj;
+  }
+
+  // ===== 구조 분해 =====
+
+  /**
+   * 패턴에 값 바인딩
+   * kind가 있으면 변수 선언(매개변수 포함), null이면 기존 변수/속성에 할당
+   */
+  private *bindPattern(
+    pattern: Node,
+    value: unknown,
+    kind: VariableKind | null,
+  ): Evaluation<void> {
+    switch (pattern.type) {
+      case "Identifier": {
+        const name = (pattern as unknown as { name: string }).name;
+        if (kind) {
+          this.context.declareVariable(name, kind);
+          this.context.initializeVariable(name, value);
+        } else {
+          this.context.setVariable(name, value);
+        }
+        return;
+      }
+
+      case "MemberExpression": {
+        const member = pattern as unknown as {
+          object: Node;
+          property: Node;
+          computed: boolean;
+        };
+        const obj = yield* this.evaluateNode(member.object);
+        const key = yield* this.evaluateKey(member.property, member.computed);
+        (obj as Record<string, unknown>)[key] = value;
+        return;
+      }
+
+      // 기본값: 값이 undefined일 때만 기본값 표현식 평가
+      case "AssignmentPattern": {
+        const assign = pattern as unknown as { left: Node; right: Node };
+        let resolved = value;
+        if (resolved === undefined) {
+          resolved = yield* this.evaluateNode(assign.right);
+          if (assign.left.type === "Identifier") {
+            this.inferName(
+              resolved,
+              (assign.left as unknown as { name: string }).name,
+            );
+          }
+        }
+        yield* this.bindPattern(assign.left, resolved, kind);
+        return;
+      }
+
+      case "ArrayPattern": {
+        const elements = (pattern as unknown as { elements: (Node | null)[] })
+          .elements;
+        if (value === null || value === undefined) {
+          throw this.createThrownError(
+            this.createError(
+              "TypeError",
+              `${this.stringify(value)} is not iterable`,
+            ),
+          );
+        }
+
+        const iterator = this.getIterator(value);
+        let done = false;
+
+        for (const element of elements) {
+          if (element?.type === "RestElement") {
+            const rest: unknown[] = [];
+            while (!done) {
+              const result = iterator.next();
+              done = result.done;
+              if (!done) rest.push(result.value);
+            }
+            yield* this.bindPattern(
+              (element as unknown as { argument: Node }).argument,
+              rest,
+              kind,
+            );
+            break;
+          }
+
+          let item: unknown;
+          if (!done) {
+            const result = iterator.next();
+            done = result.done;
+            item = result.value;
+          }
+
+          // 빈 자리 ([, b] = arr)는 값을 건너뜀
+          if (element) {
+            yield* this.bindPattern(element, done ? undefined : item, kind);
+          }
+        }
+
+        // 끝까지 소비하지 않은 이터레이터 정리
+        if (!done) {
+          iterator.close?.();
+        }
+        return;
+      }
+
+      case "ObjectPattern": {
+        const properties = (
+          pattern as unknown as {
+            properties: Array<{
+              type: string;
+              key: Node;
+              value: Node;
+              computed: boolean;
+              argument?: Node;
+            }>;
+          }
+        ).properties;
+        if (value === null || value === undefined) {
+          throw this.createThrownError(
+            this.createError(
+              "TypeError",
+              `Cannot destructure '${this.stringify(value)}' as it is ${this.stringify(value)}.`,
+            ),
+          );
+        }
+
+        const source = Object(value) as Record<string, unknown>;
+        const usedKeys: string[] = [];
+
+        for (const prop of properties) {
+          if (prop.type === "RestElement" && prop.argument) {
+            const rest: Record<string, unknown> = {};
+            for (const key of Object.keys(source)) {
+              if (!usedKeys.includes(key)) rest[key] = source[key];
+            }
+            yield* this.bindPattern(prop.argument, rest, kind);
+            continue;
+          }
+
+          const key = yield* this.evaluateKey(prop.key, prop.computed);
+          usedKeys.push(key);
+          yield* this.bindPattern(prop.value, source[key], kind);
+        }
+        return;
+      }
+
+      default:
+        throw new RuntimeError(
+          `지원하지 않는 바인딩 패턴입니다: ${pattern.type}`,
+        );
+    }
+  }
+
+  /**
+   * 패턴이 바인딩하는 변수 이름 목록
+   */
+  private collectPatternNames(pattern: Node | null): string[] {
+    if (!pattern) return [];
+
+    const p = pattern as AnyNode;
+
+    switch (pattern.type) {
+      case "Identifier":
+        return [p.name as string];
+      case "AssignmentPattern":
+        return this.collectPatternNames(p.left as Node);
+      case "RestElement":
+        return this.collectPatternNames(p.argument as Node);
+      case "ArrayPattern":
+        return (p.elements as (Node | null)[]).flatMap((el) =>
+          this.collectPatternNames(el),
+        );
+      case "ObjectPattern":
+        return (p.properties as AnyNode[]).flatMap((prop) =>
+          this.collectPatternNames(
+            (prop.type === "RestElement" ? prop.argument : prop.value) as Node,
+          ),
+        );
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * 패턴으로 바인딩된 변수와 값 설명 (a = 1, b = 2)
+   */
+  private describeBindings(pattern: Node): string {
+    return this.collectPatternNames(pattern)
+      .map(
+        (name) => `${name} = ${this.stringify(this.context.getVariable(name))}`,
+      )
+      .join(", ");
+  }
+
+  /**
+   * 이터러블의 모든 값을 배열로 수집 (전개 연산자용)
+   */
+  private collectIterable(iterable: unknown, loopId: string): unknown[] {
+    const iterator = this.getIterator(iterable);
+    const values: unknown[] = [];
+
+    this.loopCounters.set(loopId, 0);
+
+    while (true) {
+      this.checkLoopLimit(loopId);
+
+      const { value, done } = iterator.next();
+      if (done) break;
+      values.push(value);
+    }
+
+    return values;
+  }
+
+  /**
+   * await 표현식 평가
+   * 현재 async 실행 단위를 일시 중지하고, Promise가 settle되면
+   * 마이크로태스크에서 settle된 값(또는 throw)으로 재개됨
+   */
+  private *evaluateAwaitExpression(node: Node): Evaluation {
+    const expr = node as unknown as { argument: Node };
+    const value = yield* this.evaluateNode(expr.argument);
+
+    if (!this.currentAsyncContext) {
+      throw new RuntimeError("await는 async 함수 안에서만 사용할 수 있습니다");
+    }
+
+    // Promise가 아닌 값도 Promise.resolve로 감싸서 한 틱 뒤에 재개
+    // (thenable이면 상태 채택에 2틱이 더 걸림)
+    const promise = this.builtins.isSimulatedPromise(value)
+      ? value
+      : this.builtins.promiseResolve([value]);
+
+    this.recordStep(
+      `await 대기 중... ${this.currentAsyncContext.name}() 일시 중지`,
+    );
+
+    const suspension: AwaitSuspension = {
+      __isAwaitSuspension: true,
+      promise,
+      scopeSnapshot: this.context.getCurrentScope(),
+    };
+
+    // 재개 시 settle된 값을 돌려받음 (reject인 경우 이 지점에서 throw됨)
+    const resolvedValue = yield suspension;
+
+    this.setLineFromNode(node);
+    this.recordStep(`await 재개: ${this.stringify(resolvedValue)}`);
+    return resolvedValue;
+  }
+
+  private *evaluateTemplateLiteral(node: Node): Evaluation<string> {
+    const literal = node as unknown as {
+      quasis: Array<{ value: { cooked: string } }>;
+      expressions: Node[];
+    };
+
+    let result = "";
+
+    for (let i = 0; i < literal.quasis.length; i++) {
+      result += literal.quasis[i].value.cooked;
+
+      if (i < literal.expressions.length) {
+        const value = yield* this.evaluateNode(literal.expressions[i]);
+        result += String(value);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * throw 문 평가
+   */
+  private *evaluateThrowStatement(node: Node): Evaluation<never> {
+    const stmt = node as unknown as { argument: Node };
+    const error = yield* this.evaluateNode(stmt.argument);
+    this.recordStep(`throw ${this.stringify(error)}`);
+
+    // ThrownError로 래핑하여 throw (인터프리터 내부 에러와 구분)
+    throw this.createThrownError(error);
+  }
+
+  /**
+   * try-catch-finally 문 평가
+   */
+  private *evaluateTryStatement(node: Node): Evaluation {
+    const stmt = node as unknown as {
+      block: Node;
+      handler?: {
+        param?: { name: string };
+        body: Node;
+      };
+      finalizer?: Node;
+    };
+
+    let result: unknown;
+    let caughtError: unknown = undefined;
+    let hasError = false;
+
+    // try 블록 실행
+    this.recordStep("try 블록 시작");
+    try {
+      result = yield* this.evaluateNode(stmt.block);
+    } catch (e) {
+      // ThrownError인지 확인 (사용자 코드에서 throw된 에러)
+      if (this.isThrownError(e)) {
+        hasError = true;
+        caughtError = e.error;
+      } else if (this.isGeneratorReturn(e)) {
+        // generator.return(): catch는 건너뛰고 finally만 실행
+        if (stmt.finalizer) {
+          this.recordStep("finally 블록 시작");
+          yield* this.evaluateFinalizer(stmt.finalizer);
+        }
+        throw e;
+      } else {
+        // 인터프리터 내부 에러는 다시 throw
+        throw e;
+      }
+    }
+
+    // catch 블록 실행 (에러가 있고 handler가 있는 경우)
+    if (hasError && stmt.handler) {
+      this.recordStep("catch 블록 시작");
+
+      // 블록 스코프 생성
+      this.context.enterScope("block");
+
+      // 에러 파라미터 바인딩
+      if (stmt.handler.param) {
+        this.context.declareVariable(stmt.handler.param.name, "let");
+        this.context.initializeVariable(stmt.handler.param.name, caughtError);
+      }
+
+      result = yield* this.evaluateNode(stmt.handler.body);
+      this.context.exitScope();
+      hasError = false; // 에러 처리 완료
+    }
+
+    // finally 블록 실행 (항상 실행)
+    if (stmt.finalizer) {
+      this.recordStep("finally 블록 시작");
+      yield* this.evaluateFinalizer(stmt.finalizer);
+    }
+
+    // catch 없이 에러가 남아있으면 다시 throw
+    if (hasError) {
+      throw this.createThrownError(caughtError);
+    }
+
+    return result;
+  }
+
+  /**
+   * finally 블록 평가
+   * try/catch에서 발생한 return/break/continue는 finally 실행 후 이어서 처리
+   * (finally 안에서 새로 return/break하면 그것이 우선)
+   */
+  private *evaluateFinalizer(finalizer: Node): Evaluation<void> {
+    const { hasReturned, returnValue, pendingJump } = this;
+
+    this.hasReturned = false;
+    this.pendingJump = null;
+
+    yield* this.evaluateNode(finalizer);
+
+    if (!this.hasReturned && !this.pendingJump) {
+      this.hasReturned = hasReturned;
+      this.returnValue = returnValue;
+      this.pendingJump = pendingJump;
+    }
+  }
+
+  // ===== 클래스 =====
+
+  /**
+   * class 선언 평가 (let처럼 블록 스코프에 바인딩)
+   */
+  private *evaluateClassDeclaration(node: Node): Evaluation<void> {
+    const simulatedClass = yield* this.evaluateClass(node);
+    this.context.declareVariable(simulatedClass.name, "let");
+    this.context.initializeVariable(simulatedClass.name, simulatedClass);
+    this.recordStep(`클래스 선언: class ${simulatedClass.name}`);
+  }
+
+  /**
+   * class 선언/표현식 평가
+   * 메서드와 접근자는 프로토타입(static은 클래스 객체)에 정의하고,
+   * static 필드와 static 블록은 정의 직후 순서대로 실행
+   */
+  private *evaluateClass(node: Node): Evaluation<SimulatedClass> {
+    const classNode = node as unknown as {
+      id?: { name: string } | null;
+      superClass?: Node | null;
+      body: { body: AnyNode[] };
+    };
+    const name = classNode.id?.name ?? "";
+
+    let parentClass: SimulatedClass | null = null;
+    if (classNode.superClass) {
+      const parent = yield* this.evaluateNode(classNode.superClass);
+      if (!this.builtins.isSimulatedClass(parent)) {
+        throw new RuntimeError(
+          `클래스 ${name || "(anonymous)"}은(는) 클래스만 상속할 수 있습니다`,
+        );
+      }
+      parentClass = parent;
+    }
+
+    // 클래스 본문 스코프 (클래스 이름은 내부에서 상수로 바인딩)
+    this.context.enterScope("block");
+
+    const prototype: Record<string, unknown> = Object.create(
+      parentClass ? parentClass.prototype : Object.prototype,
+    );
+    const simulatedClass: SimulatedClass = {
+      __isSimulatedClass: true,
+      name,
+      constructorClosure: null,
+      parentClass,
+      prototype,
+      instanceFields: [],
+    };
+
+    // static 멤버 상속
+    if (parentClass) {
+      Object.setPrototypeOf(simulatedClass, parentClass);
+    }
+    Object.defineProperty(prototype, "constructor", {
+      value: simulatedClass,
+      writable: true,
+      configurable: true,
+    });
+
+    if (name) {
+      this.context.declareVariable(name, "const");
+    }
+
+    /** static 필드/블록 초기화 클로저 (정의 순서대로 실행) */
+    const staticInitializers: Array<{ key: string | null; closure: Closure }> =
+      [];
+
+    for (const element of classNode.body.body) {
+      if (element.type === "StaticBlock") {
+        staticInitializers.push({
+          key: null,
+          closure: this.createInitializerClosure(
+            { type: "BlockStatement", body: element.body } as unknown as Node,
+            simulatedClass,
+            true,
+          ),
+        });
+        continue;
+      }
+
+      const key = yield* this.evaluateKey(
+        element.key as Node,
+        element.computed === true,
+      );
+      const isStatic = element.static === true;
+
+      if (element.type === "PropertyDefinition") {
+        const initializer = element.value
+          ? this.createInitializerClosure(
+              element.value as Node,
+              simulatedClass,
+              isStatic,
+            )
+          : null;
+
+        if (isStatic) {
+          staticInitializers.push({
+            key,
+            closure:
+              initializer ??
+              this.createInitializerClosure(
+                { type: "Identifier", name: "undefined" } as unknown as Node,
+                simulatedClass,
+                true,
+              ),
+          });
+        } else {
+          const field: ClassFieldDefinition = { key, initializer };
+          simulatedClass.instanceFields.push(field);
+        }
+        continue;
+      }
+
+      // MethodDefinition
+      const method = this.context.createClosure(
+        element.value as Node,
+        key,
+        (element.value as AnyNode).async === true,
+      );
+      method.homeClass = simulatedClass;
+      method.isStatic = isStatic;
+
+      if (element.kind === "constructor") {
+        simulatedClass.constructorClosure = method;
+        continue;
+      }
+
+      const target = isStatic ? simulatedClass : prototype;
+
+      if (element.kind === "get" || element.kind === "set") {
+        this.defineAccessor(target, key, method, element.kind);
+      } else {
+        Object.defineProperty(target, key, {
+          value: method,
+          writable: true,
+          configurable: true,
+        });
+      }
+    }
+
+    if (name) {
+      this.context.initializeVariable(name, simulatedClass);
+    }
+
+    // static 필드와 static 블록 실행 (this = 클래스)
+    for (const { key, closure } of staticInitializers) {
+      const value = this.executeClosure(closure, [], simulatedClass);
+      if (key !== null) {
+        simulatedClass[key] = value;
+        this.recordStep(
+          `static 필드 초기화: ${name}.${key} = ${this.stringify(value)}`,
+        );
+      }
+    }
+
+    this.context.exitScope();
+
+    return simulatedClass;
+  }
+
+  /**
+   * 필드 초기화 표현식/static 블록을 메서드 형태의 클로저로 감쌈
+   * (this와 super를 메서드와 동일하게 사용하기 위함)
+   */
+  private createInitializerClosure(
+    body: Node,
+    homeClass: SimulatedClass,
+    isStatic: boolean,
+  ): Closure {
+    const closure = this.context.createClosure(
+      { type: "FunctionExpression", params: [], body } as unknown as Node,
+      "__initializer__",
+    );
+    closure.homeClass = homeClass;
+    closure.isStatic = isStatic;
+    return closure;
+  }
+
+  /**
+   * getter/setter 정의
+   * 속성 접근 시 인터프리터에서 접근자 클로저를 실행하도록 네이티브 접근자로 연결
+   */
+  private defineAccessor(
+    target: Record<string, unknown>,
+    key: string,
+    accessor: Closure,
+    kind: "get" | "set",
+  ): void {
+    const interpreter = this;
+    const label = `${kind} ${this.getMethodLabel(accessor, key)}`;
+
+    Object.defineProperty(
+      target,
+      key,
+      kind === "get"
+        ? {
+            get(this: unknown) {
+              return interpreter.callUserFunction(accessor, [], label, this);
+            },
+            configurable: true,
+          }
+        : {
+            set(this: unknown, value: unknown) {
+              interpreter.callUserFunction(accessor, [value], label, this);
+            },
+            configurable: true,
+          },
+    );
+  }
+
+  /**
+   * new 클래스 처리
+   */
+  private instantiateClass(
+    simulatedClass: SimulatedClass,
+    args: unknown[],
+  ): unknown {
+    const instance = Object.create(simulatedClass.prototype) as Record<
+      string,
+      unknown
+    >;
+    const result = this.constructInstance(
+      simulatedClass,
+      args,
+      instance,
+      `new ${simulatedClass.name}`,
+    );
+
+    // 생성자가 객체를 반환하면 그 객체가 new의 결과
+    return result !== null && typeof result === "object" ? result : instance;
+  }
+
+  /**
+   * 생성자 실행
+   * 기반 클래스는 생성자 본문 전에, 파생 클래스는 super() 직후에 필드 초기화
+   */
+  private constructInstance(
+    simulatedClass: SimulatedClass,
+    args: unknown[],
+    instance: Record<string, unknown>,
+    label: string,
+  ): unknown {
+    const { constructorClosure, parentClass } = simulatedClass;
+
+    // 내장 클래스(Error 등)는 프레임 없이 바로 초기화
+    if (this.isBuiltinClass(simulatedClass) && simulatedClass.nativeInit) {
+      simulatedClass.nativeInit(instance, args);
+      return undefined;
+    }
+
+    if (this.eventLoop.getCallStackDepth() >= this.config.maxCallStackDepth) {
+      throw new ExecutionLimitError("콜스택 깊이 초과 (재귀 호출 제한)");
+    }
+
+    this.eventLoop.pushToCallStack({
+      functionName: `${label}()`,
+      location: this.getCurrentLocation(),
+      variables: this.context.getVariablesSnapshot(),
+    });
+    this.recordCallStep(`함수 호출: ${label}()`);
+
+    let result: unknown;
+
+    try {
+      if (constructorClosure) {
+        if (!parentClass) {
+          this.initializeFields(simulatedClass, instance);
+        }
+        result = this.executeClosure(constructorClosure, args, instance);
+      } else {
+        // 암묵적 생성자: constructor(...args) { super(...args); }
+        if (parentClass) {
+          this.constructInstance(
+            parentClass,
+            args,
+            instance,
+            `${parentClass.name}.constructor`,
+          );
+        }
+        this.initializeFields(simulatedClass, instance);
+      }
+    } finally {
+      this.flushCallStep();
+      this.eventLoop.popFromCallStack();
+    }
+
+    this.recordStep(`함수 종료: ${label}()`);
+
+    return result;
+  }
+
+  /**
+   * 인스턴스 필드 초기화 (정의 순서대로)
+   */
+  private initializeFields(
+    simulatedClass: SimulatedClass,
+    instance: Record<string, unknown>,
+  ): void {
+    for (const field of simulatedClass.instanceFields) {
+      const value = field.initializer
+        ? this.executeClosure(field.initializer, [], instance)
+        : undefined;
+
+      Object.defineProperty(instance, field.key, {
+        value,
+        writable: true,
+        enumerable: !field.key.startsWith("#"),
+        configurable: true,
+      });
+      this.recordStep(
+        `필드 초기화: this.${field.key} = ${this.stringify(value)}`,
+      );
+    }
+  }
+
+  /**
+   * super(...) 호출 처리
+   * 부모 생성자를 현재 this로 실행한 뒤 현재 클래스의 필드를 초기화
+   */
+  private evaluateSuperCall(args: unknown[]): undefined {
+    const homeClass = this.context.getFunctionClosure()?.homeClass;
+
+    if (!homeClass?.parentClass) {
+      throw new RuntimeError(
+        "super()는 파생 클래스의 생성자에서만 호출할 수 있습니다",
+      );
+    }
+
+    if (this.context.isThisInitialized()) {
+      throw this.createThrownError(
+        this.createError(
+          "ReferenceError",
+          "Super constructor may only be called once",
+        ),
+      );
+    }
+
+    const instance = this.context.getThisBinding() as Record<string, unknown>;
+    this.constructInstance(
+      homeClass.parentClass,
+      args,
+      instance,
+      `${homeClass.parentClass.name}.constructor`,
+    );
+    this.context.markThisInitialized();
+    this.initializeFields(homeClass, instance);
+
+    return undefined;
+  }
+
+  /**
+   * this 값 반환 (파생 클래스 생성자에서 super() 호출 전이면 ReferenceError)
+   */
+  private getInitializedThis(): unknown {
+    if (!this.context.isThisInitialized()) {
+      throw this.createThrownError(
+        this.createError(
+          "ReferenceError",
+          "Must call super constructor in derived class before accessing 'this'",
+        ),
+      );
+    }
+
+    return this.context.getThisBinding();
+  }
+
+  /**
+   * super 참조 대상 반환
+   * 인스턴스 메서드는 부모 프로토타입, static 메서드는 부모 클래스
+   */
+  private getSuperTarget(): Record<string, unknown> {
+    const closure = this.context.getFunctionClosure();
+    const parentClass = closure?.homeClass?.parentClass;
+
+    if (!closure || !parentClass) {
+      throw new RuntimeError(
+        "super는 파생 클래스의 메서드에서만 사용할 수 있습니다",
+      );
+    }
+
+    return closure.isStatic ? parentClass : parentClass.prototype;
+  }
+
+  /**
+   * 메서드 콜스택 프레임 이름 (ClassName.method)
+   */
+  private getMethodLabel(method: Closure, prop: string): string {
+    return method.homeClass?.name ? `${method.homeClass.name}.${prop}` : prop;
+  }
+
+  // ===== 내장 에러 =====
+
+  /**
+   * Error, TypeError, RangeError, ReferenceError, AggregateError 클래스 생성
+   * 사용자 클래스와 같은 형태라서 new, extends, instanceof가 그대로 동작하고,
+   * 프로토타입 체인이 네이티브 Error.prototype으로 이어져 toString도 동작
+   */
+  private createErrorClasses(): Map<string, unknown> {
+    const classes = new Map<string, unknown>();
+
+    const defineErrorClass = (
+      name: string,
+      parentClass: SimulatedClass | null,
+      nativeInit: SimulatedClass["nativeInit"],
+    ): SimulatedClass => {
+      const prototype: Record<string, unknown> = Object.create(
+        parentClass ? parentClass.prototype : Error.prototype,
+      );
+      const errorClass: SimulatedClass = {
+        __isSimulatedClass: true,
+        name,
+        constructorClosure: null,
+        parentClass,
+        prototype,
+        instanceFields: [],
+        nativeInit,
+      };
+
+      if (parentClass) {
+        Object.setPrototypeOf(errorClass, parentClass);
+      }
+      Object.defineProperty(prototype, "constructor", {
+        value: errorClass,
+        writable: true,
+        configurable: true,
+      });
+      Object.defineProperty(prototype, "name", {
+        value: name,
+        writable: true,
+        configurable: true,
+      });
+
+      classes.set(name, errorClass);
+      return errorClass;
+    };
+
+    // new Error(message, { cause })
+    const initError = (
+      instance: Record<string, unknown>,
+      [message, options]: unknown[],
+    ) => {
+      if (message !== undefined) {
+        this.defineHidden(instance, "message", String(message));
+      }
+      if (
+        options !== null &&
+        typeof options === "object" &&
+        "cause" in options
+      ) {
+        this.defineHidden(
+          instance,
+          "cause",
+          (options as { cause: unknown }).cause,
+        );
+      }
+      this.defineHidden(instance, "stack", this.buildStackTrace(instance));
+      this.recordStep(`에러 객체 생성: ${String(instance)}`);
     };
 
-    const left = this.evaluateNode(expr.left);
+    const errorClass = defineErrorClass("Error", null, initError);
+    defineErrorClass("TypeError", errorClass, initError);
+    defineErrorClass("RangeError", errorClass, initError);
+    defineErrorClass("ReferenceError", errorClass, initError);
+    defineErrorClass("SyntaxError", errorClass, initError);
+
+    // new DOMException(message, name): name이 인스턴스마다 다름 (DataCloneError 등)
+    defineErrorClass(
+      "DOMException",
+      errorClass,
+      (instance, [message, name]) => {
+        this.defineHidden(
+          instance,
+          "name",
+          name === undefined ? "Error" : String(name),
+        );
+        initError(instance, [message]);
+      },
+    );
+
+    // new AggregateError(errors, message, { cause })
+    defineErrorClass("AggregateError", errorClass, (instance, args) => {
+      const [errors, ...rest] = args;
+      this.defineHidden(
+        instance,
+        "errors",
+        this.collectIterable(errors, "aggregate_errors"),
+      );
+      initError(instance, rest);
+    });
+
+    return classes;
+  }
+
+  /**
+   * 내장 클래스인지 확인 (nativeInit은 static처럼 상속되므로 자체 속성만 확인)
+   */
+  private isBuiltinClass(simulatedClass: SimulatedClass): boolean {
+    return Object.hasOwn(simulatedClass, "nativeInit");
+  }
+
+  /**
+   * 내장 에러 인스턴스 생성 (인터프리터가 던지는 TypeError 등)
+   */
+  private createError(name: string, message: string): unknown {
+    return this.instantiateClass(
+      this.builtinGlobals.get(name) as SimulatedClass,
+      [message],
+    );
+  }
 
-    switch (expr.operator) {
-      case "&&":
-        return left ? this.evaluateNode(expr.right) : left;
-      case "||":
-        return left ? left : this.evaluateNode(expr.right);
-      case "??":
-        return left != null ? left : this.evaluateNode(expr.right);
-      default:
-        return undefined;
+  /**
+   * 시뮬레이션 콜스택으로 stack 문자열 생성
+   * 각 프레임의 위치는 그 위 프레임을 호출한 지점 (맨 위 프레임은 현재 라인)
+   */
+  private buildStackTrace(error: Record<string, unknown>): string {
+    const frames = this.eventLoop.getCallStackFrames();
+    const lines = [String(error)];
+    let location = this.getCurrentLocation();
+
+    for (let i = frames.length - 1; i >= 0; i--) {
+      const name = frames[i].functionName.replace(/\(\)$/, "");
+      lines.push(`    at ${name} (${location})`);
+      location = frames[i].location;
     }
+
+    return lines.join("\n");
   }
 
-  private evaluateConditionalExpression(node: Node): unknown {
-    const expr = node as unknown as {
-      test: Node;
-      consequent: Node;
-      alternate: Node;
-    };
-    const test = this.evaluateNode(expr.test);
-    return test
-      ? this.evaluateNode(expr.consequent)
-      : this.evaluateNode(expr.alternate);
+  /**
+   * 열거되지 않는 속성 정의 (네이티브 Error의 message, stack 등과 동일)
+   */
+  private defineHidden(
+    target: Record<string, unknown>,
+    key: string,
+    value: unknown,
+  ): void {
+    Object.defineProperty(target, key, {
+      value,
+      writable: true,
+      enumerable: false,
+      configurable: true,
+    });
   }
 
-  private evaluateIfStatement(node: Node): void {
-    const stmt = node as unknown as {
-      test: Node;
-      consequent: Node;
-      alternate?: Node;
-    };
-    const test = this.evaluateNode(stmt.test);
+  // ===== 제너레이터 =====
 
-    if (test) {
-      this.evaluateNode(stmt.consequent);
-    } else if (stmt.alternate) {
-      this.evaluateNode(stmt.alternate);
+  /**
+   * 제너레이터 함수 호출
+   * 본문은 실행하지 않고 제너레이터 객체만 생성 (첫 .next()에서 실행 시작)
+   */
+  private createGenerator(
+    closure: Closure,
+    args: unknown[],
+    thisArg?: unknown,
+  ): SimulatedGenerator {
+    if (closure.isAsync) {
+      throw new RuntimeError("async 제너레이터는 지원하지 않습니다");
     }
-  }
 
-  private evaluateForStatement(node: Node): void {
-    const stmt = node as unknown as {
-      init?: Node;
-      test?: Node;
-      update?: Node;
-      body: Node;
+    const generator: SimulatedGenerator = {
+      __isSimulatedGenerator: true,
+      name: this.getMethodLabel(closure, closure.name ?? "(anonymous)"),
+      state: "suspendedStart",
+      evaluation: this.evaluateFunctionBody(closure, args, thisArg),
+      scope: this.context.getCurrentScope(),
+      frame: null,
     };
 
-    this.context.enterScope("block");
-    const loopId = `for_${node.start}`;
-    this.loopCounters.set(loopId, 0);
+    this.recordStep(
+      `제너레이터 객체 생성: ${generator.name}() - 본문은 .next() 호출 시 실행`,
+    );
 
-    if (stmt.init) {
-      this.evaluateNode(stmt.init);
+    return generator;
+  }
+
+  /**
+   * 제너레이터 재개 (.next/.return/.throw)
+   * 다음 yield까지 실행하고 프레임을 콜스택에서 내려 일시 중지 상태로 보관
+   */
+  private resumeGenerator(
+    generator: SimulatedGenerator,
+    mode: "next" | "return" | "throw",
+    input: unknown,
+  ): { value: unknown; done: boolean } {
+    if (generator.state === "executing") {
+      throw this.createThrownError(
+        this.createError("TypeError", "Generator is already running"),
+      );
     }
 
-    while (true) {
-      this.checkLoopLimit(loopId);
+    // 시작 전 return/throw는 본문을 실행하지 않고 바로 종료
+    if (generator.state === "suspendedStart" && mode !== "next") {
+      generator.state = "completed";
+    }
 
-      if (stmt.test) {
-        const test = this.evaluateNode(stmt.test);
-        if (!test) break;
+    if (generator.state === "completed") {
+      if (mode === "throw") {
+        throw this.createThrownError(input);
       }
+      return { value: mode === "return" ? input : undefined, done: true };
+    }
+
+    if (this.eventLoop.getCallStackDepth() >= this.config.maxCallStackDepth) {
+      throw new ExecutionLimitError("콜스택 깊이 초과 (재귀 호출 제한)");
+    }
 
-      this.evaluateNode(stmt.body);
-      if (this.hasReturned) break;
+    const label = `${generator.name}()`;
+    const location = this.getCurrentLocation();
 
-      if (stmt.update) {
-        this.evaluateNode(stmt.update);
-      }
+    // 일시 중지된 프레임이 콜스택에 다시 올라감
+    if (generator.frame) {
+      generator.frame = this.eventLoop.resumeSuspendedFrame(
+        generator.frame,
+        location,
+      );
+    } else {
+      generator.frame = this.eventLoop.pushToCallStack({
+        functionName: label,
+        location,
+        variables: this.context.getVariablesSnapshot(),
+      });
     }
+    this.recordStep(
+      `제너레이터 재개: ${label} .${mode}(${input === undefined ? "" : this.stringify(input)})`,
+    );
 
-    this.context.exitScope();
-  }
+    const callerScope = this.context.getCurrentScope();
+    const outerAsyncContext = this.currentAsyncContext;
 
-  private evaluateWhileStatement(node: Node): void {
-    const stmt = node as unknown as { test: Node; body: Node };
-    const loopId = `while_${node.start}`;
-    this.loopCounters.set(loopId, 0);
+    this.context.restoreScope(generator.scope);
+    this.currentAsyncContext = null;
+    generator.state = "executing";
 
-    while (true) {
-      this.checkLoopLimit(loopId);
+    try {
+      const result =
+        mode === "next"
+          ? generator.evaluation.next(input)
+          : generator.evaluation.throw(
+              mode === "throw"
+                ? this.createThrownError(input)
+                : this.createGeneratorReturn(input),
+            );
+
+      if (result.done) {
+        return this.completeGenerator(generator, result.value);
+      }
 
-      const test = this.evaluateNode(stmt.test);
-      if (!test) break;
+      if (!this.isYieldSuspension(result.value)) {
+        throw new RuntimeError(
+          "await는 async 함수 안에서만 사용할 수 있습니다",
+        );
+      }
 
-      this.evaluateNode(stmt.body);
-      if (this.hasReturned) break;
-    }
-  }
+      // yield 지점에서 일시 중지 -> 스코프 보관, 프레임은 콜스택을 떠남
+      generator.state = "suspendedYield";
+      generator.scope = this.context.getCurrentScope();
+      generator.frame =
+        this.eventLoop.suspendTopFrame("yield에서 일시 중지") ?? null;
+      this.recordStep(
+        `yield ${this.stringify(result.value.value)}: ${label} 일시 중지 (콜스택에서 내려감)`,
+      );
 
-  private evaluateReturnStatement(node: Node): void {
-    const stmt = node as unknown as { argument?: Node };
+      return { value: result.value.value, done: false };
+    } catch (e) {
+      if (this.isGeneratorReturn(e)) {
+        return this.completeGenerator(generator, e.value);
+      }
 
-    if (stmt.argument) {
-      this.returnValue = this.evaluateNode(stmt.argument);
-    } else {
+      generator.state = "completed";
+      this.eventLoop.popFromCallStack();
+      throw e;
+    } finally {
+      this.hasReturned = false;
       this.returnValue = undefined;
+      this.context.restoreScope(callerScope);
+      this.currentAsyncContext = outerAsyncContext;
     }
-
-    this.hasReturned = true;
-    this.recordStep(`return ${this.stringify(this.returnValue)}`);
   }
 
-  private evaluateArrayExpression(node: Node): unknown[] {
-    const expr = node as unknown as { elements: (Node | null)[] };
-    return expr.elements.map((el) => (el ? this.evaluateNode(el) : undefined));
+  /**
+   * 제너레이터 종료 처리 (본문 완료 또는 .return())
+   */
+  private completeGenerator(
+    generator: SimulatedGenerator,
+    value: unknown,
+  ): { value: unknown; done: boolean } {
+    generator.state = "completed";
+    generator.frame = null;
+    this.eventLoop.popFromCallStack();
+    this.recordStep(
+      `제너레이터 종료: ${generator.name}() (done: true, value: ${this.stringify(value)})`,
+    );
+
+    return { value, done: true };
   }
 
-  private evaluateObjectExpression(node: Node): Record<string, unknown> {
+  /**
+   * yield 표현식 평가
+   * 제너레이터를 일시 중지하고, 재개 시 .next(value)로 전달된 값을 반환
+   */
+  private *evaluateYieldExpression(node: Node): Evaluation {
     const expr = node as unknown as {
-      properties: Array<{
-        key: Node;
-        value: Node;
-        computed: boolean;
-      }>;
+      argument: Node | null;
+      delegate: boolean;
     };
+    const value = expr.argument
+      ? yield* this.evaluateNode(expr.argument)
+      : undefined;
 
-    const obj: Record<string, unknown> = {};
-
-    for (const prop of expr.properties) {
-      let key: string;
-
-      if (prop.computed) {
-        key = String(this.evaluateNode(prop.key));
-      } else if (prop.key.type === "Identifier") {
-        key = (prop.key as unknown as { name: string }).name;
-      } else {
-        key = String((prop.key as unknown as { value: unknown }).value);
-      }
-
-      obj[key] = this.evaluateNode(prop.value);
+    if (expr.delegate) {
+      return yield* this.evaluateYieldDelegate(value);
     }
 
-    return obj;
-  }
+    const suspension: YieldSuspension = {
+      __isYieldSuspension: true,
+      value,
+    };
 
-  private evaluateAwaitExpression(node: Node): unknown {
-    const expr = node as unknown as { argument: Node };
-    const promise = this.evaluateNode(expr.argument);
+    // 재개 시 .next()의 인자를 돌려받음 (.throw()인 경우 이 지점에서 throw됨)
+    const received = yield suspension;
 
-    if (this.builtins.isSimulatedPromise(promise)) {
-      this.recordStep("await 대기 중...");
+    this.setLineFromNode(node);
+    return received;
+  }
 
-      // await은 마이크로태스크로 스케줄됨을 시뮬레이션
-      // 실제로는 함수 일시정지가 필요하지만, 간단한 시뮬레이션에서는
-      // Promise가 이미 fulfilled인 경우 값을 반환
-      if (promise.state === "fulfilled") {
-        return promise.value;
+  /**
+   * yield* 위임
+   * 내부 제너레이터(또는 배열/문자열)의 값을 하나씩 yield하고,
+   * 내부 제너레이터의 반환값을 yield* 표현식의 값으로 사용
+   */
+  private *evaluateYieldDelegate(iterable: unknown): Evaluation {
+    if (Array.isArray(iterable) || typeof iterable === "string") {
+      this.recordStep(`yield* ${this.stringify(iterable)} 위임 시작`);
+      for (const item of iterable) {
+        yield { __isYieldSuspension: true, value: item } as YieldSuspension;
       }
-
-      // pending인 경우 undefined 반환 (실제로는 일시정지되어야 함)
       return undefined;
     }
 
-    // Promise가 아닌 값은 즉시 반환
-    return promise;
-  }
+    if (!this.builtins.isSimulatedGenerator(iterable)) {
+      throw this.createThrownError(
+        this.createError(
+          "TypeError",
+          `${this.stringify(iterable)} is not iterable`,
+        ),
+      );
+    }
 
-  private evaluateTemplateLiteral(node: Node): string {
-    const literal = node as unknown as {
-      quasis: Array<{ value: { cooked: string } }>;
-      expressions: Node[];
-    };
+    this.recordStep(`yield* ${iterable.name}() 위임 시작`);
 
-    let result = "";
+    let mode: "next" | "return" | "throw" = "next";
+    let input: unknown;
 
-    for (let i = 0; i < literal.quasis.length; i++) {
-      result += literal.quasis[i].value.cooked;
+    while (true) {
+      const result = this.resumeGenerator(iterable, mode, input);
 
-      if (i < literal.expressions.length) {
-        const value = this.evaluateNode(literal.expressions[i]);
-        result += String(value);
+      if (result.done) {
+        // .return()은 위임한 제너레이터도 종료시킴
+        if (mode === "return") {
+          throw this.createGeneratorReturn(result.value);
+        }
+        return result.value;
+      }
+
+      // 외부에서 받은 next/throw/return을 내부 제너레이터로 전달
+      try {
+        input = yield {
+          __isYieldSuspension: true,
+          value: result.value,
+        } as YieldSuspension;
+        mode = "next";
+      } catch (e) {
+        if (this.isThrownError(e)) {
+          mode = "throw";
+          input = e.error;
+        } else if (this.isGeneratorReturn(e)) {
+          mode = "return";
+          input = e.value;
+        } else {
+          throw e;
+        }
       }
     }
+  }
 
-    return result;
+  /**
+   * generator.return() 신호 생성
+   */
+  private createGeneratorReturn(value: unknown): GeneratorReturn {
+    return {
+      __isGeneratorReturn: true,
+      value,
+    };
   }
 
   /**
-   * throw 문 평가
+   * GeneratorReturn 타입 가드
    */
-  private evaluateThrowStatement(node: Node): never {
-    const stmt = node as unknown as { argument: Node };
-    const error = this.evaluateNode(stmt.argument);
-    this.recordStep(`throw ${this.stringify(error)}`);
+  private isGeneratorReturn(e: unknown): e is GeneratorReturn {
+    return e !== null && typeof e === "object" && "__isGeneratorReturn" in e;
+  }
 
-    // ThrownError로 래핑하여 throw (인터프리터 내부 에러와 구분)
-    const thrownError: import("./types").ThrownError = {
+  /**
+   * YieldSuspension 타입 가드
+   */
+  private isYieldSuspension(value: unknown): value is YieldSuspension {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isYieldSuspension" in value
+    );
+  }
+
+  /**
+   * 사용자 에러를 ThrownError로 래핑
+   */
+  private createThrownError(error: unknown): import("./types").ThrownError {
+    return {
       __isThrownError: true,
       error,
     };
-    throw thrownError;
   }
 
   /**
-   * try-catch-finally 문 평가
+   * 처리되지 않은 에러를 콘솔에 출력
    */
-  private evaluateTryStatement(node: Node): unknown {
-    const stmt = node as unknown as {
-      block: Node;
-      handler?: {
-        param?: { name: string };
-        body: Node;
-      };
-      finalizer?: Node;
-    };
-
-    let result: unknown;
-    let caughtError: unknown = undefined;
-    let hasError = false;
-
-    // try 블록 실행
-    this.recordStep("try 블록 시작");
-    try {
-      result = this.evaluateNode(stmt.block);
-    } catch (e) {
-      // ThrownError인지 확인 (사용자 코드에서 throw된 에러)
-      if (this.isThrownError(e)) {
-        hasError = true;
-        caughtError = e.error;
-      } else {
-        // 인터프리터 내부 에러는 다시 throw
-        throw e;
-      }
-    }
-
-    // catch 블록 실행 (에러가 있고 handler가 있는 경우)
-    if (hasError && stmt.handler) {
-      this.recordStep("catch 블록 시작");
-
-      // 블록 스코프 생성
-      this.context.enterScope("block");
-
-      // 에러 파라미터 바인딩
-      if (stmt.handler.param) {
-        this.context.declareVariable(stmt.handler.param.name, "let");
-        this.context.initializeVariable(stmt.handler.param.name, caughtError);
-      }
-
-      result = this.evaluateNode(stmt.handler.body);
-      this.context.exitScope();
-      hasError = false; // 에러 처리 완료
-    }
-
-    // finally 블록 실행 (항상 실행)
-    if (stmt.finalizer) {
-      this.recordStep("finally 블록 시작");
-      this.evaluateNode(stmt.finalizer);
-    }
-
-    // catch 없이 에러가 남아있으면 다시 throw
-    if (hasError) {
-      const thrownError: import("./types").ThrownError = {
-        __isThrownError: true,
-        error: caughtError,
-      };
-      throw thrownError;
-    }
-
-    return result;
+  private reportUncaughtError(error: unknown): void {
+    this.eventLoop.addConsoleLog({
+      timestamp: this.eventLoop.getCurrentTime(),
+      type: "error",
+      message: `Uncaught ${this.stringify(error)}`,
+    });
+    this.recordStep(`처리되지 않은 에러: ${this.stringify(error)}`);
   }
 
   /**
@@ -1231,6 +5011,26 @@ export class ASTInterpreter {
 
   // ===== 유틸리티 메서드 =====
 
+  /**
+   * Closure 타입 가드
+   */
+  private isClosure(value: unknown): value is Closure {
+    return (
+      value !== null && typeof value === "object" && "functionNode" in value
+    );
+  }
+
+  /**
+   * 익명 함수/클래스에 변수 이름 부여 (const f = () => {} 등)
+   */
+  private inferName(value: unknown, name: string): void {
+    if (this.isClosure(value) && value.name === null) {
+      value.name = name;
+    } else if (this.builtins.isSimulatedClass(value) && !value.name) {
+      value.name = name;
+    }
+  }
+
   private setLineFromNode(node: Node): void {
     const line = this.sourceMap.get(node.start);
     if (line !== undefined) {
@@ -1242,28 +5042,108 @@ export class ASTInterpreter {
     return `line ${this.eventLoop.getSnapshot().currentLine || "?"}`;
   }
 
+  /**
+   * 함수 호출 단계 예약
+   * 프레임은 이미 push되었지만 피호출 스코프가 아직 없으므로, 파라미터 바인딩 후에 기록
+   */
+  private recordCallStep(description: string): void {
+    this.flushCallStep();
+    this.pendingCallStep = description;
+  }
+
+  /**
+   * 예약된 호출 단계 기록 (본문 없이 끝나는 호출도 프레임을 pop하기 전에 기록)
+   */
+  private flushCallStep(): void {
+    if (this.pendingCallStep === null) return;
+
+    const description = this.pendingCallStep;
+    this.pendingCallStep = null;
+    this.recordStep(description);
+  }
+
   private recordStep(description: string): void {
+    if (this.inspecting) return;
+
+    // 예약된 호출 단계가 이 단계보다 먼저 기록되어야 함
+    this.flushCallStep();
+
     this.eventLoop.setDescription(description);
 
-    // 콜스택 최상단 프레임의 변수 업데이트
-    const snapshot = this.eventLoop.getSnapshot();
-    if (snapshot.callStack.length > 0) {
-      const topFrame = snapshot.callStack[snapshot.callStack.length - 1];
+    // 콜스택 최상단 프레임의 변수와 스코프 체인 업데이트
+    const topFrame = this.eventLoop.peekCallStack();
+    if (topFrame) {
       topFrame.variables = this.context.getVariablesSnapshot();
+      topFrame.scopes = this.context.getScopeChainSnapshot((value) =>
+        this.builtins.formatValue(value),
+      );
+    }
+
+    // 워커의 단계는 메인 스레드 트레이스에 함께 기록
+    const root = this.host ?? this;
+    const step = root.eventLoop.getSnapshot();
+    if (this.host) {
+      step.description = `[${this.agentName}] ${description}`;
+      step.currentLine = this.eventLoop.getSnapshot().currentLine;
+      step.activeAgent = this.agentName;
     }
+    step.agents = root.workers.map((worker) =>
+      worker.interpreter.getAgentState(worker.terminated),
+    );
+    step.scope = this.context.snapshotScope();
+
+    root.steps.push(step);
+    root.stepCount++;
+  }
 
-    this.steps.push(this.eventLoop.getSnapshot());
-    this.stepCount++;
+  /**
+   * 워커 에이전트 상태 (UI 표시용)
+   */
+  private getAgentState(terminated: boolean): AgentState {
+    const snapshot = this.eventLoop.getSnapshot();
+    return {
+      id: this.agentName,
+      name: this.agentName,
+      callStack: snapshot.callStack,
+      taskQueue: snapshot.taskQueue,
+      microtaskQueue: snapshot.microtaskQueue,
+      currentLine: snapshot.currentLine,
+      currentTime: snapshot.currentTime,
+      terminated,
+    };
+  }
+
+  /**
+   * 부작용 없는 식 평가에서 허용하지 않는 노드 검사
+   */
+  private checkSideEffectFree(node: Node): void {
+    const isDelete =
+      node.type === "UnaryExpression" &&
+      (node as AnyNode).operator === "delete";
+
+    if (SIDE_EFFECT_NODE_TYPES.has(node.type) || isDelete) {
+      throw new RuntimeError(
+        `부작용이 있을 수 있는 식(${node.type})은 평가할 수 없습니다`,
+      );
+    }
   }
 
   private checkStepLimit(): void {
-    if (this.stepCount >= this.config.maxSteps) {
+    if ((this.host ?? this).stepCount >= this.config.maxSteps) {
       throw new ExecutionLimitError(
         `최대 실행 단계(${this.config.maxSteps})를 초과했습니다`,
       );
     }
   }
 
+  /**
+   * 루프 문 반복 1회 처리: 반복 횟수 검사 + 가상 시간 소비
+   */
+  private chargeLoopIteration(loopId: string): void {
+    this.checkLoopLimit(loopId);
+    this.eventLoop.spendTime(this.config.loopIterationCost);
+  }
+
   private checkLoopLimit(loopId: string): void {
     const count = (this.loopCounters.get(loopId) || 0) + 1;
     this.loopCounters.set(loopId, count);
@@ -1285,6 +5165,12 @@ export class ASTInterpreter {
     if (this.builtins.isSimulatedPromise(value)) {
       return `Promise { <${value.state}> }`;
     }
+    if (this.builtins.isSimulatedClass(value)) {
+      return `[class ${value.name}]`;
+    }
+    if (this.builtins.isSimulatedGenerator(value)) {
+      return `Object [Generator] { <${value.state}> }`;
+    }
     return String(value);
   }
 
@@ -1294,10 +5180,18 @@ export class ASTInterpreter {
     this.loopCounters.clear();
     this.hasReturned = false;
     this.returnValue = undefined;
+    this.pendingJump = null;
+    this.pendingLabels = [];
     this.messageChannels.clear();
+    this.workers = [];
+    this.messageListeners.clear();
+    this.workerErrorListeners.clear();
+    this.mutationMicrotaskQueued = false;
+    this.pendingCallStep = null;
     this.currentAsyncContext = null;
     this.context.reset();
     this.eventLoop.reset();
     this.builtins.reset();
+    this.dom.reset();
   }
 }
@@ -5,13 +5,39 @@
 
 import { nanoid } from "nanoid";
 import type { EventLoopSimulator } from "./EventLoopSimulator";
-import type { Closure, SimulatedPromise } from "./types";
+import type {
+  Closure,
+  PromiseHandler,
+  SimulatedClass,
+  SimulatedDocument,
+  SimulatedElement,
+  SimulatedEvent,
+  SimulatedGenerator,
+  SimulatedMessagePort,
+  SimulatedMutationObserver,
+  SimulatedPromise,
+  SimulatedResponse,
+  SimulatedWorker,
+  SimulatedWorkerScope,
+  ThrownError,
+} from "./types";
 
 /** 내장 핸들러 컨텍스트 */
 export interface BuiltinContext {
   eventLoop: EventLoopSimulator;
   /** 클로저 실행 함수 (인터프리터에서 주입) */
   executeClosure: (closure: Closure, args: unknown[]) => unknown;
+  /** 마이크로태스크 안에서 사용자 콜백을 프레임과 함께 실행 (인터프리터에서 주입) */
+  invokeCallback: (
+    closure: Closure,
+    args: unknown[],
+    source: string,
+    thisArg?: unknown,
+  ) => unknown;
+  /** 내장 에러 객체 생성 (new AggregateError(...) 등, 인터프리터에서 주입) */
+  createError: (name: string, args: unknown[]) => unknown;
+  /** 실행 단계 기록 (인터프리터에서 주입) */
+  recordStep: (description: string) => void;
 }
 
 export class BuiltinHandlers {
@@ -93,31 +119,27 @@ export class BuiltinHandlers {
    * setTimeout 처리
    */
   private setTimeout(args: unknown[]): number {
-    const [callback, delay = 0] = args;
+    const [callback, delay = 0, ...callbackArgs] = args;
 
     if (typeof callback !== "object" || !callback) {
       throw new Error("setTimeout의 첫 번째 인자는 함수여야 합니다");
     }
 
-    const closure = callback as Closure;
-    const timerId = Math.floor(Math.random() * 1000000);
-
-    this.context.eventLoop.scheduleTask({
-      callback: closure,
+    return this.context.eventLoop.scheduleTimer({
+      callback: callback as Closure,
       source: "setTimeout",
       delay: Number(delay),
       createdAt: this.context.eventLoop.getCurrentTime(),
       preview: `setTimeout callback (${delay}ms)`,
+      args: callbackArgs,
     });
-
-    return timerId;
   }
 
   /**
-   * clearTimeout 처리 (구현 생략 - 시각화에서는 중요하지 않음)
+   * clearTimeout 처리
    */
-  private clearTimeout(_args: unknown[]): void {
-    // 시각화 목적에서는 생략
+  private clearTimeout(args: unknown[]): void {
+    this.context.eventLoop.clearTimer(Number(args[0]));
   }
 
   /**
@@ -131,6 +153,13 @@ export class BuiltinHandlers {
       return value;
     }
 
+    // thenable은 새 Promise가 NewPromiseResolveThenableJob으로 상태를 채택
+    if (this.getThenMethod(value)) {
+      const promise = this.createPendingPromise();
+      this.resolvePromise(promise, value);
+      return promise;
+    }
+
     const promise: SimulatedPromise = {
       id: nanoid(8),
       state: "fulfilled",
@@ -175,27 +204,7 @@ export class BuiltinHandlers {
     this.promises.set(promise.id, promise);
 
     // resolve/reject 함수 생성
-    const resolve = (value: unknown) => {
-      this.resolvePromise(promise, value);
-    };
-
-    const reject = (reason: unknown) => {
-      if (promise.state !== "pending") return;
-
-      promise.state = "rejected";
-      promise.reason = reason;
-
-      // 등록된 catch 콜백들을 마이크로태스크로 스케줄
-      for (const handler of promise.onRejected) {
-        this.context.eventLoop.scheduleMicrotask({
-          callback: handler.callback,
-          source: "Promise.catch",
-          createdAt: this.context.eventLoop.getCurrentTime(),
-          preview: "Promise.catch callback",
-          chainedPromise: handler.chainedPromise,
-        });
-      }
-    };
+    const { resolve, reject } = this.createResolvingFunctions(promise);
 
     // executor 실행은 동기적으로 수행
     // 실제로는 인터프리터에서 처리해야 함
@@ -205,6 +214,180 @@ export class BuiltinHandlers {
     return promise;
   }
 
+  /**
+   * pending 상태의 Promise 생성 (async 함수 결과 등)
+   */
+  createPendingPromise(): SimulatedPromise {
+    const promise: SimulatedPromise = {
+      id: nanoid(8),
+      state: "pending",
+      onFulfilled: [],
+      onRejected: [],
+    };
+
+    this.promises.set(promise.id, promise);
+    return promise;
+  }
+
+  /**
+   * resolve/reject 함수 쌍 생성
+   * 둘 중 하나가 처음 호출된 뒤의 호출은 무시됨 (thenable 채택 중인 경우 포함)
+   */
+  private createResolvingFunctions(promise: SimulatedPromise): {
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+  } {
+    let alreadyResolved = false;
+
+    return {
+      resolve: (value: unknown) => {
+        if (alreadyResolved) return;
+        alreadyResolved = true;
+        this.resolvePromise(promise, value);
+      },
+      reject: (reason: unknown) => {
+        if (alreadyResolved) return;
+        alreadyResolved = true;
+        this.rejectPromise(promise, reason);
+      },
+    };
+  }
+
+  /**
+   * 핸들러 없는 리액션 잡: 결과를 그대로 다음 Promise에 전달
+   */
+  private passThrough(
+    promise: SimulatedPromise,
+    outcome: { value: unknown } | { reason: unknown },
+  ): void {
+    this.context.recordStep(
+      "value" in outcome
+        ? "마이크로태스크 실행: PromiseReactionJob (값 전달)"
+        : "마이크로태스크 실행: PromiseReactionJob (거부 전달)",
+    );
+
+    if ("value" in outcome) {
+      this.resolvePromise(promise, outcome.value);
+    } else {
+      this.rejectPromise(promise, outcome.reason);
+    }
+  }
+
+  /**
+   * 내부 잡을 마이크로태스크로 스케줄 (MutationObserver 통지 등)
+   * 사용자 콜백 대신 internalCallback이 실행됨
+   */
+  scheduleInternalJob(source: string, preview: string, job: () => void): void {
+    this.context.eventLoop.scheduleMicrotask({
+      callback: {
+        functionNode: null as unknown as import("acorn").Node,
+        capturedScope: null as unknown as import("./types").Scope,
+        name: `__${source}_job__`,
+      },
+      source,
+      createdAt: this.context.eventLoop.getCurrentTime(),
+      preview,
+      internalCallback: job,
+    });
+  }
+
+  /**
+   * 내부 잡을 지연 후 실행되는 태스크로 스케줄 (fetch 응답 도착 등)
+   * 반환값은 타이머 ID
+   */
+  scheduleInternalTask(
+    source: string,
+    preview: string,
+    delay: number,
+    job: () => void,
+  ): number {
+    return this.context.eventLoop.scheduleTimer({
+      callback: {
+        functionNode: null as unknown as import("acorn").Node,
+        capturedScope: null as unknown as import("./types").Scope,
+        name: `__${source}_task__`,
+      },
+      source,
+      delay,
+      createdAt: this.context.eventLoop.getCurrentTime(),
+      preview,
+      internalCallback: job,
+    });
+  }
+
+  /**
+   * 내부 작업을 타이머를 거치지 않고 바로 태스크 큐에 넣음 (MessagePort 메시지 등)
+   */
+  queueInternalTask(source: string, preview: string, job: () => void): void {
+    this.context.eventLoop.scheduleTask({
+      callback: {
+        functionNode: null as unknown as import("acorn").Node,
+        capturedScope: null as unknown as import("./types").Scope,
+        name: `__${source}_task__`,
+      },
+      source,
+      createdAt: this.context.eventLoop.getCurrentTime(),
+      preview,
+      internalCallback: job,
+    });
+  }
+
+  /**
+   * settle 시 internalHandler를 직접 호출하는 핸들러 생성
+   */
+  private createInternalHandler(
+    name: string,
+    internalHandler: (value: unknown) => void,
+  ): PromiseHandler {
+    return {
+      callback: {
+        functionNode: null as unknown as import("acorn").Node,
+        capturedScope: null as unknown as import("./types").Scope,
+        name,
+      },
+      internalHandler,
+    };
+  }
+
+  /**
+   * 내부 리액션 등록 (await 재개 등)
+   * Promise가 settle되면 리액션 잡을 마이크로태스크로 스케줄하고,
+   * 마이크로태스크 실행 시점에 onFulfilled/onRejected를 호출
+   */
+  addInternalReaction(
+    promise: SimulatedPromise,
+    onFulfilled: (value: unknown) => void,
+    onRejected: (reason: unknown) => void,
+    source: string,
+    preview: string,
+  ): void {
+    const scheduleReaction = (job: () => void) => {
+      this.scheduleInternalJob(source, preview, job);
+    };
+
+    if (promise.state === "fulfilled") {
+      scheduleReaction(() => onFulfilled(promise.value));
+      return;
+    }
+
+    if (promise.state === "rejected") {
+      scheduleReaction(() => onRejected(promise.reason));
+      return;
+    }
+
+    promise.onFulfilled.push(
+      this.createInternalHandler(`__${source}_fulfilled__`, (value) => {
+        scheduleReaction(() => onFulfilled(value));
+      }),
+    );
+
+    promise.onRejected.push(
+      this.createInternalHandler(`__${source}_rejected__`, (reason) => {
+        scheduleReaction(() => onRejected(reason));
+      }),
+    );
+  }
+
   /**
    * Promise.prototype.then 처리
    */
@@ -235,8 +418,12 @@ export class BuiltinHandlers {
           resolvedValue: promise.value,
         });
       } else {
-        // 콜백이 없으면 값을 그대로 전달
-        this.resolvePromise(newPromise, promise.value);
+        // 콜백이 없어도 리액션 잡 한 틱을 거쳐 값을 그대로 전달
+        this.scheduleInternalJob(
+          "PromiseReactionJob",
+          "값 전달 (then 핸들러 없음)",
+          () => this.passThrough(newPromise, { value: promise.value }),
+        );
       }
     } else if (promise.state === "rejected") {
       // 이미 거부됨
@@ -249,21 +436,38 @@ export class BuiltinHandlers {
           chainedPromise: newPromise,
           resolvedValue: promise.reason,
         });
+      } else {
+        // 콜백이 없으면 거부 사유를 그대로 전달
+        this.scheduleInternalJob(
+          "PromiseReactionJob",
+          "거부 전달 (catch 핸들러 없음)",
+          () => this.passThrough(newPromise, { reason: promise.reason }),
+        );
       }
     } else {
       // pending -> 콜백 등록 (체인 정보 포함)
-      if (onFulfilled) {
-        promise.onFulfilled.push({
-          callback: onFulfilled,
-          chainedPromise: newPromise,
-        });
-      }
-      if (onRejected) {
-        promise.onRejected.push({
-          callback: onRejected,
-          chainedPromise: newPromise,
-        });
-      }
+      promise.onFulfilled.push(
+        onFulfilled
+          ? { callback: onFulfilled, chainedPromise: newPromise }
+          : this.createInternalHandler("__then_passthrough__", (value) => {
+              this.scheduleInternalJob(
+                "PromiseReactionJob",
+                "값 전달 (then 핸들러 없음)",
+                () => this.passThrough(newPromise, { value }),
+              );
+            }),
+      );
+      promise.onRejected.push(
+        onRejected
+          ? { callback: onRejected, chainedPromise: newPromise }
+          : this.createInternalHandler("__catch_passthrough__", (reason) => {
+              this.scheduleInternalJob(
+                "PromiseReactionJob",
+                "거부 전달 (catch 핸들러 없음)",
+                () => this.passThrough(newPromise, { reason }),
+              );
+            }),
+      );
     }
 
     return newPromise;
@@ -271,37 +475,69 @@ export class BuiltinHandlers {
 
   /**
    * Promise를 resolve하고 체인 콜백 스케줄
-   * Promise unwrapping: 값이 Promise인 경우 재귀적으로 처리
+   * 값이 thenable이면 NewPromiseResolveThenableJob으로 상태를 채택 (스펙과 같은 틱 수)
    */
   resolvePromise(promise: SimulatedPromise, value: unknown): void {
     if (promise.state !== "pending") return;
 
-    // Promise unwrapping: 값이 Promise인 경우 재귀적으로 처리
+    // 자기 자신으로 resolve하면 TypeError로 reject
+    if (value === promise) {
+      this.rejectPromise(
+        promise,
+        this.context.createError("TypeError", [
+          "Chaining cycle detected for promise #<Promise>",
+        ]),
+      );
+      return;
+    }
+
+    // Promise 채택: 잡 1틱 + 내부 then의 PromiseReactionJob 1틱 = 추가 2틱
     if (this.isSimulatedPromise(value)) {
-      if (value.state === "fulfilled") {
-        // 이미 fulfilled인 Promise면 그 값으로 재귀 호출
-        this.resolvePromise(promise, value.value);
-        return;
-      } else if (value.state === "pending") {
-        // pending Promise면 then 등록하여 나중에 resolve
-        value.onFulfilled.push({
-          callback: {
-            functionNode: null as unknown as import("acorn").Node,
-            capturedScope: null as unknown as import("./types").Scope,
-            name: "__promise_unwrap__",
-          },
-          chainedPromise: promise,
-          internalHandler: (resolvedValue: unknown) => {
-            this.resolvePromise(promise, resolvedValue);
-          },
-        });
-        return;
-      }
-      // rejected인 경우 reject 전파
-      if (value.state === "rejected") {
-        this.rejectPromise(promise, value.reason);
-        return;
-      }
+      this.scheduleInternalJob(
+        "NewPromiseResolveThenableJob",
+        "Promise 상태 채택",
+        () => {
+          this.context.recordStep(
+            "마이크로태스크 실행: NewPromiseResolveThenableJob (내부 then 등록)",
+          );
+          this.addInternalReaction(
+            value,
+            (resolvedValue) =>
+              this.passThrough(promise, { value: resolvedValue }),
+            (reason) => this.passThrough(promise, { reason }),
+            "PromiseReactionJob",
+            "채택한 Promise 결과 전달",
+          );
+        },
+      );
+      return;
+    }
+
+    // 사용자 thenable: 잡에서 then(resolve, reject)을 호출
+    const thenMethod = this.getThenMethod(value);
+    if (thenMethod) {
+      this.scheduleInternalJob(
+        "NewPromiseResolveThenableJob",
+        "thenable.then() 호출",
+        () => {
+          const { resolve, reject } = this.createResolvingFunctions(promise);
+          try {
+            this.context.invokeCallback(
+              thenMethod,
+              [resolve, reject],
+              "NewPromiseResolveThenableJob",
+              value,
+            );
+          } catch (e) {
+            if (e && typeof e === "object" && "__isThrownError" in e) {
+              reject((e as ThrownError).error);
+              return;
+            }
+            throw e;
+          }
+        },
+      );
+      return;
     }
 
     // 평상적인 값 처리
@@ -347,24 +583,9 @@ export class BuiltinHandlers {
       return this.promiseResolve([[]]);
     }
 
-    const resultPromise: SimulatedPromise = {
-      id: nanoid(8),
-      state: "pending",
-      onFulfilled: [],
-      onRejected: [],
-    };
-    this.promises.set(resultPromise.id, resultPromise);
-
+    const resultPromise = this.createPendingPromise();
     const results: unknown[] = new Array(items.length);
     let resolvedCount = 0;
-    let settled = false;
-
-    const checkAllResolved = () => {
-      if (resolvedCount === items.length && !settled) {
-        settled = true;
-        this.resolvePromise(resultPromise, results);
-      }
-    };
 
     items.forEach((item, index) => {
       // Promise가 아닌 값은 Promise.resolve로 래핑
@@ -372,56 +593,23 @@ export class BuiltinHandlers {
         ? item
         : this.promiseResolve([item]);
 
-      if (promise.state === "fulfilled") {
-        // 동기적으로 결과 수집 (마이크로태스크 없이!)
-        results[index] = promise.value;
-        resolvedCount++;
-      } else if (promise.state === "rejected" && !settled) {
-        // 첫 번째 reject로 전체 reject
-        settled = true;
-        this.rejectPromise(resultPromise, promise.reason);
-      } else if (promise.state === "pending") {
-        // pending인 경우 핸들러 등록
-        promise.onFulfilled.push({
-          callback: {
-            functionNode: null as unknown as import("acorn").Node,
-            capturedScope: null as unknown as import("./types").Scope,
-            name: `__promiseAll_${index}__`,
-          },
-          chainedPromise: {
-            id: `__all_internal_${index}__`,
-            state: "pending",
-            onFulfilled: [],
-            onRejected: [],
-          },
-          internalHandler: (value: unknown) => {
-            if (settled) return;
-            results[index] = value;
-            resolvedCount++;
-            checkAllResolved();
-          },
-        });
-
-        // reject 핸들러도 등록
-        promise.onRejected.push({
-          callback: {
-            functionNode: null as unknown as import("acorn").Node,
-            capturedScope: null as unknown as import("./types").Scope,
-            name: "__promiseAll_reject__",
-          },
-          chainedPromise: resultPromise,
-          internalHandler: (reason: unknown) => {
-            if (settled) return;
-            settled = true;
-            this.rejectPromise(resultPromise, reason);
-          },
-        });
-      }
+      // 이미 settle된 항목도 리액션 잡 하나를 거쳐 수집 (스펙과 같은 틱 수)
+      this.addInternalReaction(
+        promise,
+        (value) => {
+          results[index] = value;
+          resolvedCount++;
+          if (resolvedCount === items.length) {
+            this.resolvePromise(resultPromise, results);
+          }
+        },
+        // 첫 번째 reject로 전체 reject (이후 settle은 무시됨)
+        (reason) => this.rejectPromise(resultPromise, reason),
+        "Promise.all",
+        `Promise.all [${index}]`,
+      );
     });
 
-    // 모든 항목 처리 후 단일 체크 (fulfilled 항목만 있을 경우 즉시 resolve)
-    checkAllResolved();
-
     return resultPromise;
   }
 
@@ -503,6 +691,155 @@ export class BuiltinHandlers {
     return resultPromise;
   }
 
+  /**
+   * Promise.allSettled 처리
+   * 모든 Promise가 settle되면 {status, value/reason} 결과 배열로 fulfill
+   */
+  promiseAllSettled(items: unknown[]): SimulatedPromise {
+    if (items.length === 0) {
+      return this.promiseResolve([[]]);
+    }
+
+    const resultPromise = this.createPendingPromise();
+    const results: unknown[] = new Array(items.length);
+    let settledCount = 0;
+
+    const record = (index: number, result: Record<string, unknown>) => {
+      results[index] = result;
+      settledCount++;
+      if (settledCount === items.length) {
+        this.resolvePromise(resultPromise, results);
+      }
+    };
+
+    items.forEach((item, index) => {
+      const promise = this.isSimulatedPromise(item)
+        ? item
+        : this.promiseResolve([item]);
+
+      // 각 항목의 settle마다 리액션 잡이 마이크로태스크 큐에 들어감
+      this.addInternalReaction(
+        promise,
+        (value) => record(index, { status: "fulfilled", value }),
+        (reason) => record(index, { status: "rejected", reason }),
+        "Promise.allSettled",
+        `Promise.allSettled [${index}]`,
+      );
+    });
+
+    return resultPromise;
+  }
+
+  /**
+   * Promise.any 처리
+   * 첫 번째로 fulfill된 값으로 fulfill, 모두 reject되면 AggregateError로 reject
+   */
+  promiseAny(items: unknown[]): SimulatedPromise {
+    const resultPromise = this.createPendingPromise();
+
+    if (items.length === 0) {
+      this.rejectPromise(
+        resultPromise,
+        this.context.createError("AggregateError", [
+          [],
+          "All promises were rejected",
+        ]),
+      );
+      return resultPromise;
+    }
+
+    const errors: unknown[] = new Array(items.length);
+    let rejectedCount = 0;
+
+    items.forEach((item, index) => {
+      const promise = this.isSimulatedPromise(item)
+        ? item
+        : this.promiseResolve([item]);
+
+      this.addInternalReaction(
+        promise,
+        (value) => this.resolvePromise(resultPromise, value),
+        (reason) => {
+          errors[index] = reason;
+          rejectedCount++;
+          if (rejectedCount === items.length) {
+            this.rejectPromise(
+              resultPromise,
+              this.context.createError("AggregateError", [
+                errors,
+                "All promises were rejected",
+              ]),
+            );
+          }
+        },
+        "Promise.any",
+        `Promise.any [${index}]`,
+      );
+    });
+
+    return resultPromise;
+  }
+
+  /**
+   * Promise.prototype.finally 처리
+   * 콜백은 인자 없이 실행되고, 원래 값/사유를 그대로 전달
+   * 단, 콜백이 throw하거나 reject되는 Promise를 반환하면 그 사유로 reject
+   */
+  promiseFinally(
+    promise: SimulatedPromise,
+    onFinally?: Closure,
+  ): SimulatedPromise {
+    const resultPromise = this.createPendingPromise();
+
+    const runFinally = (outcome: { value: unknown } | { reason: unknown }) => {
+      if (!onFinally) {
+        if ("value" in outcome) {
+          this.resolvePromise(resultPromise, outcome.value);
+        } else {
+          this.rejectPromise(resultPromise, outcome.reason);
+        }
+        return;
+      }
+
+      let callbackResult: unknown;
+      try {
+        callbackResult = this.context.invokeCallback(
+          onFinally,
+          [],
+          "Promise.finally",
+        );
+      } catch (e) {
+        if (e && typeof e === "object" && "__isThrownError" in e) {
+          this.rejectPromise(resultPromise, (e as ThrownError).error);
+          return;
+        }
+        throw e;
+      }
+
+      // 스펙대로 Promise.resolve(콜백 결과).then(() => 원래 결과)를 채택
+      // 콜백 결과 대기 1틱 + 채택 2틱이 추가로 소요됨
+      const outcomePromise = this.createPendingPromise();
+      this.addInternalReaction(
+        this.promiseResolve([callbackResult]),
+        () => this.passThrough(outcomePromise, outcome),
+        (reason) => this.passThrough(outcomePromise, { reason }),
+        "PromiseReactionJob",
+        "finally 콜백 결과 대기",
+      );
+      this.resolvePromise(resultPromise, outcomePromise);
+    };
+
+    this.addInternalReaction(
+      promise,
+      (value) => runFinally({ value }),
+      (reason) => runFinally({ reason }),
+      "Promise.finally",
+      "Promise.finally callback",
+    );
+
+    return resultPromise;
+  }
+
   /**
    * Promise를 reject하고 체인 콜백 스케줄
    */
@@ -514,6 +851,12 @@ export class BuiltinHandlers {
 
     // 등록된 catch 콜백들을 마이크로태스크로 스케줄
     for (const handler of promise.onRejected) {
+      // internalHandler가 있으면 직접 호출 (Promise.all/race, await 내부 처리용)
+      if (handler.internalHandler) {
+        handler.internalHandler(reason);
+        continue;
+      }
+
       this.context.eventLoop.scheduleMicrotask({
         callback: handler.callback,
         source: "Promise.catch",
@@ -525,6 +868,19 @@ export class BuiltinHandlers {
     }
   }
 
+  /**
+   * thenable의 then 메서드 반환 (Promise가 아닌 사용자 객체만)
+   */
+  private getThenMethod(value: unknown): Closure | null {
+    if (value === null || typeof value !== "object") return null;
+    if (this.isSimulatedPromise(value)) return null;
+
+    const then = (value as { then?: unknown }).then;
+    return then !== null && typeof then === "object" && "functionNode" in then
+      ? (then as Closure)
+      : null;
+  }
+
   /**
    * SimulatedPromise인지 확인
    */
@@ -537,6 +893,133 @@ export class BuiltinHandlers {
     );
   }
 
+  /**
+   * SimulatedClass인지 확인
+   */
+  isSimulatedClass(value: unknown): value is SimulatedClass {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedClass" in value
+    );
+  }
+
+  /**
+   * SimulatedGenerator인지 확인
+   */
+  isSimulatedGenerator(value: unknown): value is SimulatedGenerator {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedGenerator" in value
+    );
+  }
+
+  /**
+   * SimulatedResponse인지 확인
+   */
+  isSimulatedResponse(value: unknown): value is SimulatedResponse {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedResponse" in value
+    );
+  }
+
+  /**
+   * SimulatedDocument인지 확인
+   */
+  isSimulatedDocument(value: unknown): value is SimulatedDocument {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedDocument" in value
+    );
+  }
+
+  /**
+   * SimulatedElement인지 확인
+   */
+  isSimulatedElement(value: unknown): value is SimulatedElement {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedElement" in value
+    );
+  }
+
+  /**
+   * SimulatedEvent인지 확인
+   */
+  isSimulatedEvent(value: unknown): value is SimulatedEvent {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedEvent" in value
+    );
+  }
+
+  /**
+   * SimulatedMessagePort인지 확인
+   */
+  isSimulatedMessagePort(value: unknown): value is SimulatedMessagePort {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedMessagePort" in value
+    );
+  }
+
+  /**
+   * SimulatedMutationObserver인지 확인
+   */
+  isSimulatedMutationObserver(
+    value: unknown,
+  ): value is SimulatedMutationObserver {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedMutationObserver" in value
+    );
+  }
+
+  /**
+   * SimulatedWorker인지 확인
+   */
+  isSimulatedWorker(value: unknown): value is SimulatedWorker {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedWorker" in value
+    );
+  }
+
+  /**
+   * 워커 전역 객체(self)인지 확인
+   */
+  isSimulatedWorkerScope(value: unknown): value is SimulatedWorkerScope {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      "__isSimulatedWorkerScope" in value
+    );
+  }
+
+  /**
+   * Watch 패널 표시용 문자열 (문자열은 따옴표로, 함수는 이름만)
+   */
+  formatValue(value: unknown): string {
+    if (typeof value === "string") return JSON.stringify(value);
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      "functionNode" in value
+    ) {
+      return `ƒ ${(value as Closure).name ?? "anonymous"}()`;
+    }
+    return this.stringify(value);
+  }
+
   /**
    * 값을 문자열로 변환 (console 출력용)
    */
@@ -559,9 +1042,57 @@ export class BuiltinHandlers {
       return `Promise { <${value.state}> }`;
     }
 
+    if (this.isSimulatedClass(value)) {
+      return `[class ${value.name}]`;
+    }
+
+    if (this.isSimulatedGenerator(value)) {
+      return `Object [Generator] { <${value.state}> }`;
+    }
+
+    if (this.isSimulatedDocument(value)) return "#document";
+
+    if (this.isSimulatedElement(value)) {
+      const tag = value.tagName.toLowerCase();
+      const attributes = Object.entries(value.attributes)
+        .map(([name, attr]) => ` ${name}="${attr}"`)
+        .join("");
+      return `<${tag}${attributes}>`;
+    }
+
+    if (this.isSimulatedEvent(value)) {
+      return `PointerEvent { type: "${value.type}", isTrusted: ${value.isTrusted} }`;
+    }
+
+    if (this.isSimulatedMessagePort(value)) {
+      return `MessagePort (${value.name})`;
+    }
+    if (this.isSimulatedMutationObserver(value)) {
+      return "MutationObserver {}";
+    }
+    if (this.isSimulatedWorker(value)) {
+      return `Worker { name: "${value.name}" }`;
+    }
+    if (this.isSimulatedWorkerScope(value)) {
+      return `DedicatedWorkerGlobalScope { name: "${value.name}" }`;
+    }
+
+    if (this.isSimulatedResponse(value)) {
+      return `Response { status: ${value.status}, ok: ${value.ok}, url: "${value.url}" }`;
+    }
+
+    // 에러 객체는 스택 트레이스로 출력
+    if (value instanceof Error) {
+      return value.stack ?? String(value);
+    }
+
     if (type === "object") {
+      // 클래스 인스턴스는 클래스 이름을 앞에 표시
+      const ctor = Object.getPrototypeOf(value)?.constructor;
+      const prefix = this.isSimulatedClass(ctor) ? `${ctor.name} ` : "";
+
       try {
-        return JSON.stringify(value);
+        return `${prefix}${JSON.stringify(value)}`;
       } catch {
         return "[Object]";
       }
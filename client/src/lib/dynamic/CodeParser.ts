@@ -9,15 +9,15 @@ import type { ParseError, ParseResult } from "./types";
 
 /** 지원하지 않는 문법 목록 */
 const UNSUPPORTED_SYNTAX = [
-  "ClassDeclaration",
-  "ClassExpression",
   "ImportDeclaration",
   "ExportNamedDeclaration",
   "ExportDefaultDeclaration",
   "ExportAllDeclaration",
-  "YieldExpression",
   "MetaProperty",
   "WithStatement",
+  // 노드 타입이 아닌 변형 (getSyntaxType에서 구분)
+  "AsyncGenerator",
+  "ForAwaitStatement",
 ];
 
 export class CodeParser {
@@ -94,12 +94,13 @@ export class CodeParser {
     const errors: ParseError[] = [];
 
     this.walkAST(ast, (node) => {
-      if (UNSUPPORTED_SYNTAX.includes(node.type)) {
+      const type = this.getSyntaxType(node);
+      if (UNSUPPORTED_SYNTAX.includes(type)) {
         const loc = (node as acorn.Node & { loc?: acorn.SourceLocation }).loc;
         errors.push({
           line: loc?.start.line ?? 1,
           column: loc?.start.column ?? 0,
-          message: `지원하지 않는 문법입니다: ${this.getSyntaxName(node.type)}`,
+          message: `지원하지 않는 문법입니다: ${this.getSyntaxName(type)}`,
         });
       }
     });
@@ -107,6 +108,23 @@ export class CodeParser {
     return errors;
   }
 
+  /**
+   * 문법 검사용 노드 종류 (async 제너레이터, for await는 별도 종류로 구분)
+   */
+  private getSyntaxType(node: Node): string {
+    const flags = node as Node & {
+      async?: boolean;
+      generator?: boolean;
+      await?: boolean;
+    };
+
+    if (flags.async && flags.generator) return "AsyncGenerator";
+    if (node.type === "ForOfStatement" && flags.await) {
+      return "ForAwaitStatement";
+    }
+    return node.type;
+  }
+
   /**
    * AST 순회
    */
@@ -198,15 +216,14 @@ export class CodeParser {
    */
   private getSyntaxName(type: string): string {
     const names: Record<string, string> = {
-      ClassDeclaration: "class 선언",
-      ClassExpression: "class 표현식",
       ImportDeclaration: "import 문",
       ExportNamedDeclaration: "export 문",
       ExportDefaultDeclaration: "export default 문",
       ExportAllDeclaration: "export * 문",
-      YieldExpression: "yield 표현식 (제너레이터)",
       MetaProperty: "import.meta",
       WithStatement: "with 문",
+      AsyncGenerator: "async 제너레이터",
+      ForAwaitStatement: "for await 문",
     };
 
     return names[type] || type;
@@ -3,9 +3,35 @@
  * Call Stack, Task Queue, Microtask Queue 관리
  */
 
-import type { ConsoleLog, QueueItem, StackFrame } from "@shared/schema";
+import type {
+  ConsoleLog,
+  QueueItem,
+  StackFrame,
+  WebApiItem,
+} from "@shared/schema";
 import { nanoid } from "nanoid";
-import type { Closure, ExecutionStep, ScheduledTask } from "./types";
+import { TimerHeap } from "./TimerHeap";
+import type {
+  Closure,
+  EventLoopPhase,
+  ExecutionStep,
+  RuntimeMode,
+  ScheduledTask,
+  ScheduledTimer,
+} from "./types";
+
+/** 렌더링 기회 간격 (60fps, 가상 ms) */
+export const FRAME_INTERVAL_MS = 16.6;
+
+/** 가상 시간을 0.1ms 단위로 반올림 (부동소수점 오차 제거) */
+const roundTime = (time: number) => Math.round(time * 10) / 10;
+
+/** Promise와 무관한 마이크로태스크 출처 (나머지는 Promise 리액션으로 분류) */
+const NON_PROMISE_MICROTASK_SOURCES = new Set([
+  "queueMicrotask",
+  "MutationObserver",
+  "process.nextTick",
+]);
 
 export class EventLoopSimulator {
   /** 콜 스택 */
@@ -17,10 +43,43 @@ export class EventLoopSimulator {
   /** 마이크로태스크 큐 */
   private microtaskQueue: ScheduledTask[] = [];
 
+  /** process.nextTick 큐 (Node.js, Promise 마이크로태스크보다 먼저 비움) */
+  private nextTickQueue: ScheduledTask[] = [];
+
+  /** setImmediate 큐 (Node.js check 단계) */
+  private immediateQueue: ScheduledTask[] = [];
+
+  /** 처리 중인 이벤트 루프 단계 (Node.js) */
+  private phase: EventLoopPhase | null = null;
+
+  /** requestAnimationFrame 콜백 큐 (렌더링 기회에 실행) */
+  private animationQueue: ScheduledTask[] = [];
+
+  /** 마지막으로 처리한 프레임 번호 (프레임 경계 = 번호 × FRAME_INTERVAL_MS) */
+  private lastFrame = 0;
+
+  /** 만료 대기 중인 타이머 (만료 시각 순 힙) */
+  private timers = new TimerHeap();
+
+  /** 다음 타이머 ID */
+  private nextTimerId = 1;
+
+  /** 타이머 등록 순서 */
+  private timerSequence = 0;
+
+  /** 살아있는 setInterval의 실행 횟수 (clear되면 삭제) */
+  private intervalTicks = new Map<number, number>();
+
+  /** 콜스택을 떠나 일시 중지된 프레임 (제너레이터) */
+  private suspendedFrames: StackFrame[] = [];
+
   /** 콘솔 출력 */
   private consoleOutput: ConsoleLog[] = [];
 
-  /** 논리적 시간 (ms) */
+  /** 콘솔 출력 전달 대상 (워커 에이전트는 메인 스레드 콘솔에 출력) */
+  private consoleSink: ((log: Omit<ConsoleLog, "id">) => void) | null = null;
+
+  /** 가상 시계 (ms) */
   private currentTime = 0;
 
   /** 현재 실행 중인 라인 */
@@ -29,6 +88,20 @@ export class EventLoopSimulator {
   /** 현재 단계 설명 */
   private currentDescription = "";
 
+  /** 시뮬레이션 중인 런타임 */
+  private runtime: RuntimeMode;
+
+  constructor(runtime: RuntimeMode = "browser") {
+    this.runtime = runtime;
+  }
+
+  /**
+   * 시뮬레이션 중인 런타임
+   */
+  getRuntime(): RuntimeMode {
+    return this.runtime;
+  }
+
   /**
    * 콜 스택에 프레임 푸시
    */
@@ -48,6 +121,32 @@ export class EventLoopSimulator {
     return this.callStack.pop();
   }
 
+  /**
+   * 최상단 프레임을 콜 스택에서 내려 일시 중지 목록으로 이동 (yield)
+   */
+  suspendTopFrame(location: string): StackFrame | undefined {
+    const frame = this.callStack.pop();
+    if (!frame) return undefined;
+
+    // 이전 스냅샷이 프레임 객체를 공유하므로 복사본을 만듦 (id는 유지)
+    const suspended: StackFrame = { ...frame, location };
+    this.suspendedFrames.push(suspended);
+    return suspended;
+  }
+
+  /**
+   * 일시 중지된 프레임을 다시 콜 스택에 올림 (제너레이터 재개)
+   */
+  resumeSuspendedFrame(frame: StackFrame, location: string): StackFrame {
+    this.suspendedFrames = this.suspendedFrames.filter(
+      (f) => f.id !== frame.id,
+    );
+
+    const resumed: StackFrame = { ...frame, location };
+    this.callStack.push(resumed);
+    return resumed;
+  }
+
   /**
    * 콜 스택 최상단 프레임 조회
    */
@@ -55,6 +154,13 @@ export class EventLoopSimulator {
     return this.callStack[this.callStack.length - 1];
   }
 
+  /**
+   * 콜 스택 프레임 목록 (바닥부터 순서대로)
+   */
+  getCallStackFrames(): StackFrame[] {
+    return [...this.callStack];
+  }
+
   /**
    * 콜 스택이 비어있는지 확인
    */
@@ -70,7 +176,8 @@ export class EventLoopSimulator {
   }
 
   /**
-   * 태스크 스케줄링 (setTimeout 등)
+   * 태스크 스케줄링 (MessageChannel, 만료된 타이머 등)
+   * 태스크 큐는 들어온 순서대로 실행됨
    */
   scheduleTask(task: Omit<ScheduledTask, "id" | "type">): void {
     const scheduledTask: ScheduledTask = {
@@ -79,13 +186,293 @@ export class EventLoopSimulator {
       ...task,
     };
     this.taskQueue.push(scheduledTask);
+  }
+
+  /**
+   * 타이머 등록 (setTimeout 등)
+   * 가상 시계가 만료 시각에 도달해야 태스크 큐로 이동
+   */
+  scheduleTimer(task: Omit<ScheduledTask, "id" | "type">): number {
+    const id = this.nextTimerId++;
+
+    if (task.repeat) {
+      this.intervalTicks.set(id, 0);
+    }
+    this.armTimer(id, task);
+
+    return id;
+  }
+
+  /**
+   * 타이머를 현재 시각 + delay에 만료되도록 힙에 넣음
+   */
+  private armTimer(id: number, task: Omit<ScheduledTask, "id" | "type">): void {
+    // Node.js는 1ms 미만의 딜레이를 1ms로 올림
+    const minDelay = this.runtime === "node" ? 1 : 0;
+
+    this.timers.push({
+      id,
+      dueTime: roundTime(
+        this.currentTime + Math.max(minDelay, task.delay ?? 0),
+      ),
+      sequence: this.timerSequence++,
+      task: { ...task, timerId: id, createdAt: this.currentTime },
+    });
+  }
 
-    // 딜레이 기준으로 정렬 (시간순)
-    this.taskQueue.sort((a, b) => {
-      const aTime = a.createdAt + (a.delay || 0);
-      const bTime = b.createdAt + (b.delay || 0);
-      return aTime - bTime;
+  /**
+   * 실행을 마친 setInterval 태스크를 같은 ID로 재등록
+   * clear됐거나 틱 예산을 다 쓴 경우 재등록하지 않음
+   */
+  rearmInterval(
+    task: ScheduledTask,
+    maxTicks: number,
+  ): "rearmed" | "cleared" | "exhausted" {
+    const id = task.timerId;
+    const ticks = id === undefined ? undefined : this.intervalTicks.get(id);
+    if (id === undefined || ticks === undefined) return "cleared";
+
+    if (ticks + 1 >= maxTicks) {
+      this.intervalTicks.delete(id);
+      return "exhausted";
+    }
+
+    this.intervalTicks.set(id, ticks + 1);
+    this.armTimer(id, task);
+    return "rearmed";
+  }
+
+  /**
+   * 타이머 취소 (clearTimeout/clearInterval)
+   * 대기 중인 타이머와 이미 태스크 큐에 들어간 태스크 모두 제거
+   */
+  clearTimer(id: number): boolean {
+    const removedTimer = this.timers.remove(id);
+    const queueLength = this.taskQueue.length;
+    this.taskQueue = this.taskQueue.filter((task) => task.timerId !== id);
+    const wasInterval = this.intervalTicks.delete(id);
+
+    return removedTimer || this.taskQueue.length !== queueLength || wasInterval;
+  }
+
+  /**
+   * process.nextTick 스케줄링 (Node.js)
+   */
+  scheduleNextTick(task: Omit<ScheduledTask, "id" | "type">): void {
+    this.nextTickQueue.push({
+      id: nanoid(8),
+      type: "microtask",
+      ...task,
+    });
+  }
+
+  /**
+   * 다음 nextTick 콜백 꺼내기
+   */
+  popNextTick(): ScheduledTask | undefined {
+    return this.nextTickQueue.shift();
+  }
+
+  /**
+   * nextTick 큐가 비어있는지 확인
+   */
+  isNextTickQueueEmpty(): boolean {
+    return this.nextTickQueue.length === 0;
+  }
+
+  /**
+   * setImmediate 스케줄링 (Node.js check 단계에서 실행)
+   */
+  scheduleImmediate(task: Omit<ScheduledTask, "id" | "type">): number {
+    const id = this.nextTimerId++;
+
+    this.immediateQueue.push({
+      id: nanoid(8),
+      type: "task",
+      ...task,
+      timerId: id,
     });
+
+    return id;
+  }
+
+  /**
+   * check 단계 시작 시점의 setImmediate 콜백을 모두 꺼냄
+   * 실행 중 새로 등록된 콜백은 다음 루프 반복에서 실행됨
+   */
+  takeImmediates(): ScheduledTask[] {
+    const immediates = this.immediateQueue;
+    this.immediateQueue = [];
+    return immediates;
+  }
+
+  /**
+   * setImmediate 취소 (clearImmediate)
+   */
+  clearImmediate(id: number): boolean {
+    const queueLength = this.immediateQueue.length;
+    this.immediateQueue = this.immediateQueue.filter(
+      (task) => task.timerId !== id,
+    );
+    return this.immediateQueue.length !== queueLength;
+  }
+
+  /**
+   * 대기 중인 setImmediate가 있는지 확인
+   */
+  hasPendingImmediates(): boolean {
+    return this.immediateQueue.length > 0;
+  }
+
+  /**
+   * requestAnimationFrame 콜백 등록
+   */
+  scheduleAnimationFrame(task: Omit<ScheduledTask, "id" | "type">): number {
+    const id = this.nextTimerId++;
+
+    this.animationQueue.push({
+      id: nanoid(8),
+      type: "task",
+      ...task,
+      timerId: id,
+    });
+
+    return id;
+  }
+
+  /**
+   * 현재 프레임에서 실행할 rAF 콜백을 모두 꺼냄
+   * 콜백 실행 중 등록된 rAF는 다음 프레임에서 실행됨
+   */
+  takeAnimationFrames(): ScheduledTask[] {
+    const callbacks = this.animationQueue;
+    this.animationQueue = [];
+    return callbacks;
+  }
+
+  /**
+   * rAF 콜백 취소 (cancelAnimationFrame)
+   */
+  cancelAnimationFrame(id: number): boolean {
+    const queueLength = this.animationQueue.length;
+    this.animationQueue = this.animationQueue.filter(
+      (task) => task.timerId !== id,
+    );
+    return this.animationQueue.length !== queueLength;
+  }
+
+  /**
+   * 대기 중인 rAF 콜백이 있는지 확인
+   */
+  hasPendingAnimationFrames(): boolean {
+    return this.animationQueue.length > 0;
+  }
+
+  /**
+   * 다음 프레임 경계 시각
+   */
+  getNextFrameTime(): number {
+    return roundTime((this.lastFrame + 1) * FRAME_INTERVAL_MS);
+  }
+
+  /**
+   * 가상 시계가 다음 프레임 경계를 지났는지 확인 (렌더링 기회)
+   */
+  isRenderingOpportunity(): boolean {
+    return this.currentTime >= this.getNextFrameTime();
+  }
+
+  /**
+   * 렌더링 기회 처리 시작
+   * 현재 시각이 속한 프레임으로 이동하고, 그 사이 건너뛴 프레임 수를 반환
+   */
+  beginFrame(): { frame: number; frameTime: number; dropped: number } {
+    const frame = Math.floor(roundTime(this.currentTime / FRAME_INTERVAL_MS));
+    const dropped = Math.max(0, frame - this.lastFrame - 1);
+
+    this.lastFrame = frame;
+    return { frame, frameTime: roundTime(frame * FRAME_INTERVAL_MS), dropped };
+  }
+
+  /**
+   * 가상 시계를 다음 프레임 경계로 이동
+   */
+  advanceToNextFrame(): number {
+    this.currentTime = Math.max(this.currentTime, this.getNextFrameTime());
+    return this.currentTime;
+  }
+
+  /**
+   * 처리 중인 이벤트 루프 단계 설정 (Node.js)
+   */
+  setPhase(phase: EventLoopPhase | null): void {
+    this.phase = phase;
+  }
+
+  /**
+   * 만료된 타이머를 만료 순서대로 태스크 큐에 넣음
+   * 이동한 태스크의 소스 목록 반환
+   */
+  flushDueTimers(): string[] {
+    const moved: string[] = [];
+
+    for (
+      let timer = this.timers.peek();
+      timer && timer.dueTime <= this.currentTime;
+      timer = this.timers.peek()
+    ) {
+      this.timers.pop();
+      this.scheduleTask(timer.task);
+      moved.push(timer.task.source);
+    }
+
+    return moved;
+  }
+
+  /**
+   * 가상 시계를 다음 타이머의 만료 시각으로 이동
+   * 대기 중인 타이머가 없으면 null
+   */
+  advanceToNextTimer(): number | null {
+    const next = this.timers.peek();
+    if (!next) return null;
+
+    this.currentTime = Math.max(this.currentTime, next.dueTime);
+
+    // 대기하는 동안 지나간 프레임은 그릴 것이 없었으므로 드롭으로 보지 않음
+    this.lastFrame = Math.max(
+      this.lastFrame,
+      Math.floor(roundTime(this.currentTime / FRAME_INTERVAL_MS)),
+    );
+    return this.currentTime;
+  }
+
+  /**
+   * 가장 먼저 만료되는 타이머의 만료 시각
+   */
+  getNextTimerDueTime(): number | null {
+    return this.timers.peek()?.dueTime ?? null;
+  }
+
+  /**
+   * 동기 실행에 걸린 가상 시간 반영 (루프 반복 등)
+   */
+  spendTime(ms: number): void {
+    this.currentTime = roundTime(this.currentTime + ms);
+  }
+
+  /**
+   * 대기 중인 타이머의 만료 시각
+   */
+  getTimerDueTime(id: number): number | undefined {
+    return this.timers.get(id)?.dueTime;
+  }
+
+  /**
+   * 대기 중인 타이머가 있는지 확인
+   */
+  hasPendingTimers(): boolean {
+    return this.timers.size > 0;
   }
 
   /**
@@ -146,13 +533,25 @@ export class EventLoopSimulator {
    * 대기 중인 태스크가 있는지 확인
    */
   hasPendingTasks(): boolean {
-    return !this.isTaskQueueEmpty() || !this.isMicrotaskQueueEmpty();
+    return (
+      !this.isTaskQueueEmpty() ||
+      !this.isMicrotaskQueueEmpty() ||
+      !this.isNextTickQueueEmpty() ||
+      this.hasPendingImmediates() ||
+      this.hasPendingAnimationFrames() ||
+      this.hasPendingTimers()
+    );
   }
 
   /**
    * 콘솔 로그 추가
    */
   addConsoleLog(log: Omit<ConsoleLog, "id">): void {
+    if (this.consoleSink) {
+      this.consoleSink(log);
+      return;
+    }
+
     this.consoleOutput.push({
       id: nanoid(8),
       ...log,
@@ -167,10 +566,17 @@ export class EventLoopSimulator {
   }
 
   /**
-   * 시간 진행
+   * 가상 시계를 지정 시각까지 앞당김 (워커 시작 시 메인 스레드 시계에 맞춤)
    */
-  advanceTime(ms: number): void {
-    this.currentTime += ms;
+  syncClock(time: number): void {
+    this.currentTime = Math.max(this.currentTime, time);
+  }
+
+  /**
+   * 콘솔 출력을 다른 곳으로 전달 (워커 에이전트용)
+   */
+  setConsoleSink(sink: ((log: Omit<ConsoleLog, "id">) => void) | null): void {
+    this.consoleSink = sink;
   }
 
   /**
@@ -192,23 +598,59 @@ export class EventLoopSimulator {
    */
   getSnapshot(): ExecutionStep {
     return {
-      callStack: [...this.callStack],
-      taskQueue: this.taskQueue.map(this.taskToQueueItem),
-      microtaskQueue: this.microtaskQueue.map(this.taskToQueueItem),
+      // 이후 단계의 변수 갱신이 이 스냅샷에 번지지 않도록 프레임을 복사
+      callStack: this.callStack.map((frame) => ({ ...frame })),
+      taskQueue: [...this.taskQueue, ...this.immediateQueue].map(
+        this.taskToQueueItem,
+      ),
+      microtaskQueue: [...this.nextTickQueue, ...this.microtaskQueue].map(
+        this.taskToQueueItem,
+      ),
       consoleOutput: [...this.consoleOutput],
       currentLine: this.currentLine,
       description: this.currentDescription,
+      suspendedFrames: [...this.suspendedFrames],
+      currentTime: this.currentTime,
+      phase: this.phase,
+      animationQueue: this.animationQueue.map(this.taskToQueueItem),
+      webApis: this.timers.toSortedArray().map(this.timerToWebApiItem),
+      agents: [],
+      activeAgent: null,
+      scope: null,
     };
   }
 
+  /**
+   * 대기 중인 타이머를 WebApiItem으로 변환 (UI 표시용)
+   */
+  private timerToWebApiItem = (timer: ScheduledTimer): WebApiItem => {
+    return {
+      id: `timer_${timer.id}`,
+      timerId: timer.id,
+      source: timer.task.source,
+      callback: timer.task.preview,
+      startedAt: timer.task.createdAt,
+      dueTime: timer.dueTime,
+      remaining: roundTime(Math.max(0, timer.dueTime - this.currentTime)),
+    };
+  };
+
   /**
    * ScheduledTask를 QueueItem으로 변환 (UI 표시용)
+   * Promise에서 온 마이크로태스크는 잡 이름을 유지하고 "Promise reaction" 분류를 덧붙임
    */
   private taskToQueueItem = (task: ScheduledTask): QueueItem => {
+    const category =
+      task.type === "microtask" &&
+      !NON_PROMISE_MICROTASK_SOURCES.has(task.source)
+        ? "Promise reaction"
+        : undefined;
+
     return {
       id: task.id,
       type: task.type,
       source: task.source,
+      category,
       callback: task.preview,
       timestamp: task.delay || 0,
       createdAt: task.createdAt,
@@ -220,8 +662,18 @@ export class EventLoopSimulator {
    */
   reset(): void {
     this.callStack = [];
+    this.suspendedFrames = [];
     this.taskQueue = [];
     this.microtaskQueue = [];
+    this.nextTickQueue = [];
+    this.immediateQueue = [];
+    this.phase = null;
+    this.animationQueue = [];
+    this.lastFrame = 0;
+    this.timers.clear();
+    this.intervalTicks.clear();
+    this.nextTimerId = 1;
+    this.timerSequence = 0;
     this.consoleOutput = [];
     this.currentTime = 0;
     this.currentLine = null;
@@ -3,6 +3,7 @@
  * 스코프 체인, 변수 바인딩, 클로저 관리
  */
 
+import type { ScopeBinding, ScopeSnapshot } from "@shared/schema";
 import type { Node } from "acorn";
 import { nanoid } from "nanoid";
 import type {
@@ -24,6 +25,9 @@ export class ExecutionContext {
   /** 등록된 클로저 맵 */
   private closures: Map<string, Closure> = new Map();
 
+  /** 단계 스냅샷에서 복사하지 않고 공유한 내부 객체 (Promise, DOM 요소 등) */
+  private liveObjects = new WeakSet<object>();
+
   constructor() {
     // 전역 스코프 초기화
     this.globalScope = {
@@ -38,13 +42,12 @@ export class ExecutionContext {
   /**
    * 새 스코프 진입
    */
-  enterScope(type: ScopeType, thisBinding?: unknown): Scope {
+  enterScope(type: ScopeType): Scope {
     const newScope: Scope = {
       id: nanoid(8),
       type,
       parent: this.currentScope,
       variables: new Map(),
-      thisBinding,
     };
     this.currentScope = newScope;
     return newScope;
@@ -62,6 +65,144 @@ export class ExecutionContext {
     return null;
   }
 
+  /**
+   * 지정한 스코프로 컨텍스트 복원 (함수 호출 종료, await 재개 시)
+   */
+  restoreScope(scope: Scope): void {
+    this.currentScope = scope;
+  }
+
+  /**
+   * 현재 스코프를 같은 부모를 가진 복사본으로 교체 (for 루프 반복별 let 바인딩)
+   * 반복마다 새 바인딩이 생기므로 클로저가 각 반복의 값을 따로 캡처함
+   */
+  copyScope(names: string[]): Scope {
+    const source = this.currentScope;
+    const copy: Scope = {
+      id: nanoid(8),
+      type: source.type,
+      parent: source.parent,
+      variables: new Map(),
+    };
+
+    for (const name of names) {
+      const binding = source.variables.get(name);
+      if (binding) {
+        copy.variables.set(name, { ...binding });
+      }
+    }
+
+    this.currentScope = copy;
+    return copy;
+  }
+
+  /**
+   * 현재 스코프 체인의 복사본 (단계별 식 평가용)
+   * 바인딩 값과 배열/객체/클래스 인스턴스 내용은 지금 시점으로 고정
+   * (함수와 내부 마커가 있는 시뮬레이션 객체는 원본과 공유)
+   */
+  snapshotScope(): Scope {
+    const copies = new Map<object, unknown>();
+    const chain: Scope[] = [];
+    for (let scope: Scope | null = this.currentScope; scope; ) {
+      chain.push(scope);
+      scope = scope.parent;
+    }
+
+    let parent: Scope | null = null;
+    for (const scope of chain.reverse()) {
+      const variables = new Map<string, VariableBinding>();
+      for (const [name, binding] of scope.variables) {
+        variables.set(name, {
+          ...binding,
+          value: this.snapshotValue(binding.value, copies),
+        });
+      }
+      parent = { ...scope, parent, variables };
+    }
+
+    return parent as Scope;
+  }
+
+  /**
+   * 배열/객체/클래스 인스턴스를 깊게 복사 (같은 단계 안의 공유 참조와 순환 참조는 유지)
+   */
+  private snapshotValue(value: unknown, copies: Map<object, unknown>): unknown {
+    if (value === null || typeof value !== "object") return value;
+
+    const copied = copies.get(value);
+    if (copied !== undefined) return copied;
+
+    if (Array.isArray(value)) {
+      const array: unknown[] = [];
+      copies.set(value, array);
+      for (const item of value) {
+        array.push(this.snapshotValue(item, copies));
+      }
+      return array;
+    }
+
+    // 클로저와 정규식은 공유, 내부 마커가 있는 시뮬레이션 객체는 공유하되 live로 표시
+    const keys = Object.getOwnPropertyNames(value);
+    if (keys.includes("functionNode") || value instanceof RegExp) {
+      return value;
+    }
+    if (keys.some((key) => key.startsWith("__is"))) {
+      this.liveObjects.add(value);
+      return value;
+    }
+
+    // 클래스 인스턴스는 프로토타입을 유지 (private 필드처럼 열거되지 않는 필드도 복사)
+    const object: Record<string, unknown> = Object.create(
+      Object.getPrototypeOf(value),
+    );
+    copies.set(value, object);
+    for (const key of keys) {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key);
+      Object.defineProperty(object, key, {
+        // 접근자는 실행하지 않음
+        value:
+          descriptor && "value" in descriptor
+            ? this.snapshotValue(descriptor.value, copies)
+            : undefined,
+        writable: true,
+        enumerable: descriptor?.enumerable ?? true,
+        configurable: true,
+      });
+    }
+    return object;
+  }
+
+  /**
+   * 스냅샷에서 공유된 내부 객체인지 여부 (단계와 무관하게 최신 상태를 가짐)
+   */
+  isLiveObject(value: unknown): boolean {
+    return typeof value === "object" && value !== null
+      ? this.liveObjects.has(value)
+      : false;
+  }
+
+  /**
+   * 값 안에 공유된 내부 객체가 들어 있는지 검사 (Watch 결과 표시용)
+   */
+  containsLiveObject(value: unknown, seen = new Set<object>()): boolean {
+    if (value === null || typeof value !== "object" || seen.has(value)) {
+      return false;
+    }
+    if (this.liveObjects.has(value)) return true;
+
+    seen.add(value);
+    if ("functionNode" in value) return false;
+    return Object.getOwnPropertyNames(value).some((key) => {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key);
+      return (
+        descriptor !== undefined &&
+        "value" in descriptor &&
+        this.containsLiveObject(descriptor.value, seen)
+      );
+    });
+  }
+
   /**
    * 현재 스코프 반환
    */
@@ -85,7 +226,10 @@ export class ExecutionContext {
       kind === "var" ? this.getFunctionScope() : this.currentScope;
 
     // 같은 스코프에서 let/const 중복 선언 검사
-    if (kind !== "var" && targetScope.variables.has(name)) {
+    // (블록 진입 시 미리 만든 TDZ 바인딩은 그대로 사용)
+    const existing = targetScope.variables.get(name);
+    if (kind !== "var" && existing) {
+      if (!existing.initialized) return;
       throw new RuntimeError(`'${name}'은(는) 이미 선언되었습니다`);
     }
 
@@ -228,6 +372,7 @@ export class ExecutionContext {
       capturedScope: this.currentScope,
       name,
       isAsync,
+      isGenerator: (functionNode as { generator?: boolean }).generator === true,
     };
 
     const id = nanoid(8);
@@ -239,29 +384,89 @@ export class ExecutionContext {
   /**
    * 클로저의 캡처된 스코프로 컨텍스트 전환
    */
-  enterClosureScope(closure: Closure): Scope {
+  enterClosureScope(closure: Closure, thisBinding?: unknown): Scope {
     // 클로저가 캡처한 스코프를 부모로 하는 새 함수 스코프 생성
-    const savedCurrentScope = this.currentScope;
     this.currentScope = closure.capturedScope;
 
     const newScope = this.enterScope("function");
 
-    // 원래 스코프 복원 (enterScope에서 parent 설정됨)
-    this.currentScope = newScope;
+    newScope.functionClosure = closure;
+
+    // 화살표 함수는 자신의 this를 갖지 않음 (렉시컬 this)
+    if (closure.functionNode.type !== "ArrowFunctionExpression") {
+      newScope.thisBinding = thisBinding;
+    }
+
+    // 파생 클래스 생성자는 super() 호출 전까지 this가 초기화되지 않음
+    const homeClass = closure.homeClass;
+    if (homeClass?.parentClass && homeClass.constructorClosure === closure) {
+      newScope.thisUninitialized = true;
+    }
 
     return newScope;
   }
 
   /**
-   * 현재 스코프의 변수 목록 반환 (디버깅/시각화용)
+   * this 바인딩을 가진 가장 가까운 스코프 찾기
+   * 화살표 함수 스코프는 건너뛰므로 렉시컬 this가 됨
+   */
+  private getThisScope(): Scope | null {
+    let scope: Scope | null = this.currentScope;
+
+    while (scope) {
+      if ("thisBinding" in scope) return scope;
+      scope = scope.parent;
+    }
+
+    return null;
+  }
+
+  /**
+   * 현재 this 값 반환
+   */
+  getThisBinding(): unknown {
+    return this.getThisScope()?.thisBinding;
+  }
+
+  /**
+   * 현재 this가 초기화되었는지 여부 (파생 클래스 생성자의 super() 호출 전이면 false)
+   */
+  isThisInitialized(): boolean {
+    return !this.getThisScope()?.thisUninitialized;
+  }
+
+  /**
+   * super() 호출 후 this 초기화 표시
+   */
+  markThisInitialized(): void {
+    const scope = this.getThisScope();
+    if (scope) {
+      scope.thisUninitialized = false;
+    }
+  }
+
+  /**
+   * 현재 실행 중인 메서드의 클로저 반환 (super 조회용)
+   */
+  getFunctionClosure(): Closure | undefined {
+    return this.getThisScope()?.functionClosure;
+  }
+
+  /**
+   * 현재 함수의 변수 목록 반환 (디버깅/시각화용)
+   * 블록 스코프부터 가장 가까운 함수(또는 전역) 스코프까지 포함
    */
   getVariablesSnapshot(): Record<string, unknown> {
     const variables: Record<string, unknown> = {};
 
-    for (const [name, binding] of Array.from(this.currentScope.variables)) {
-      if (binding.initialized) {
-        variables[name] = this.serializeValue(binding.value);
+    for (let scope: Scope | null = this.currentScope; scope; ) {
+      for (const [name, binding] of Array.from(scope.variables)) {
+        // 더 안쪽 스코프의 변수가 우선
+        if (!(name in variables) && binding.initialized) {
+          variables[name] = this.serializeValue(binding.value);
+        }
       }
+      scope = scope.type === "block" ? scope.parent : null;
     }
 
     return variables;
@@ -287,6 +492,70 @@ export class ExecutionContext {
     return variables;
   }
 
+  /**
+   * 현재 스코프 체인 목록 반환 (안쪽부터, 스코프 패널용)
+   * 첫 함수 스코프 바깥의 함수/블록 스코프는 클로저가 캡처한 스코프로 표시
+   * TDZ 상태인 let/const도 initialized: false로 포함
+   */
+  getScopeChainSnapshot(format: (value: unknown) => string): ScopeSnapshot[] {
+    const scopes: ScopeSnapshot[] = [];
+    let insideFunction = true;
+    // 함수 본문 블록의 바인딩은 파라미터와 함께 함수 스코프 하나로 표시
+    let bodyBindings: ScopeBinding[] = [];
+
+    for (let scope: Scope | null = this.currentScope; scope; ) {
+      const bindings = Array.from(scope.variables.values(), (binding) => ({
+        name: binding.name,
+        kind: binding.kind,
+        value: binding.initialized ? format(binding.value) : "undefined",
+        initialized: binding.initialized,
+      }));
+
+      if (scope.type === "block" && scope.parent?.type === "function") {
+        bodyBindings = bindings;
+      } else {
+        const type =
+          scope.type === "global"
+            ? "global"
+            : insideFunction
+              ? scope.type
+              : "closure";
+        if (scope.type === "function") {
+          insideFunction = false;
+          bindings.push(...bodyBindings);
+          bodyBindings = [];
+        }
+
+        // 빈 블록/클로저 스코프는 생략
+        if (bindings.length > 0 || type === "function" || type === "global") {
+          scopes.push({
+            id: scope.id,
+            type,
+            name: type === "block" ? null : this.getOwnerName(scope),
+            bindings,
+          });
+        }
+      }
+      scope = scope.parent;
+    }
+
+    return scopes;
+  }
+
+  /**
+   * 스코프를 소유한 함수 이름 (전역 스코프는 null)
+   */
+  private getOwnerName(scope: Scope): string | null {
+    let current: Scope | null = scope;
+
+    while (current && current.type === "block") {
+      current = current.parent;
+    }
+
+    if (!current || current.type === "global") return null;
+    return current.functionClosure?.name ?? "anonymous";
+  }
+
   /**
    * 값 직렬화 (시각화용)
    */
@@ -310,12 +579,40 @@ export class ExecutionContext {
     }
 
     if (type === "object") {
+      // 제너레이터 객체 처리
+      if (value && "__isSimulatedGenerator" in (value as object)) {
+        const generator = value as { state: string };
+        return `[Generator: ${generator.state}]`;
+      }
+
+      // DOM 요소 처리
+      if (value && "__isSimulatedElement" in (value as object)) {
+        const element = value as { tagName: string };
+        return `<${element.tagName.toLowerCase()}>`;
+      }
+
+      // fetch Response 처리
+      if (value && "__isSimulatedResponse" in (value as object)) {
+        const response = value as { status: number };
+        return `[Response: ${response.status}]`;
+      }
+
       // SimulatedPromise 처리
       if (value && "state" in (value as object)) {
         const promise = value as { state: string };
         return `[Promise: ${promise.state}]`;
       }
 
+      // 에러 객체 처리
+      if (value instanceof Error) {
+        return String(value);
+      }
+
+      // 클래스 처리
+      if (value && "__isSimulatedClass" in (value as object)) {
+        return `[class ${(value as { name: string }).name}]`;
+      }
+
       // 일반 객체는 간략화
       return "[Object]";
     }
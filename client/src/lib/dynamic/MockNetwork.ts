@@ -0,0 +1,81 @@
+/**
+ * 모의 네트워크
+ * fetch() 요청 URL을 mockNetwork.json의 라우트에 대응시켜 지연 시간과 응답을 결정
+ */
+
+import mockNetworkConfig from "./mockNetwork.json";
+import type { MockNetworkConfig, MockRoute } from "./types";
+
+/** 요청 하나에 대한 모의 네트워크 결과 */
+export interface MockNetworkResult {
+  /** 응답이 도착하기까지의 가상 시간 (ms) */
+  latency: number;
+  /** true면 응답 없이 네트워크 오류로 실패 */
+  networkError: boolean;
+  status: number;
+  statusText: string;
+  /** 응답 본문 문자열 (객체 본문은 JSON으로 직렬화) */
+  body: string;
+}
+
+/** 자주 쓰는 상태 코드의 상태 텍스트 */
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  500: "Internal Server Error",
+  503: "Service Unavailable",
+};
+
+export class MockNetwork {
+  private config: MockNetworkConfig;
+
+  constructor(config: MockNetworkConfig = mockNetworkConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 요청 처리 결과 조회
+   * 경로+쿼리가 정확히 일치하는 라우트를 먼저 찾고, 없으면 경로만으로 찾음
+   * 등록되지 않은 URL은 404 응답
+   */
+  request(url: string): MockNetworkResult {
+    const route = this.findRoute(url);
+
+    if (!route) {
+      return {
+        latency: this.config.defaultLatency,
+        networkError: false,
+        status: 404,
+        statusText: STATUS_TEXT[404],
+        body: "Not Found",
+      };
+    }
+
+    const status = route.status ?? 200;
+    return {
+      latency: route.latency ?? this.config.defaultLatency,
+      networkError: route.networkError === true,
+      status,
+      statusText: STATUS_TEXT[status] ?? "",
+      body:
+        typeof route.body === "string"
+          ? route.body
+          : JSON.stringify(route.body ?? null),
+    };
+  }
+
+  private findRoute(url: string): MockRoute | null {
+    // 절대 URL이면 origin을 떼고 경로만 사용
+    const parsed = new URL(url, "http://localhost");
+    const routes = this.config.routes;
+
+    return (
+      routes[parsed.pathname + parsed.search] ?? routes[parsed.pathname] ?? null
+    );
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * 시뮬레이션 DOM
+ * mockDom.json의 요소 트리, 선택자 조회, 이벤트 리스너 등록과 이벤트 경로 계산
+ */
+
+import mockDomTree from "./mockDom.json";
+import type {
+  Closure,
+  EventListenerEntry,
+  MockDomNode,
+  MutationObserverOptions,
+  SimulatedDocument,
+  SimulatedElement,
+  SimulatedMutationObserver,
+  SimulatedMutationRecord,
+} from "./types";
+
+/** MutationObserver 관찰 대상 */
+interface MutationRegistration {
+  target: SimulatedElement;
+  options: MutationObserverOptions;
+}
+
+/** 복합 선택자 하나 (tag#id.class1.class2) */
+interface CompoundSelector {
+  tag: string | null;
+  id: string | null;
+  classes: string[];
+}
+
+export class SimulatedDom {
+  /** document 객체 (reset 후에도 같은 객체 유지) */
+  readonly document: SimulatedDocument;
+
+  /** 초기 트리 */
+  private tree: MockDomNode;
+
+  /** 요소별 이벤트 리스너 */
+  private listeners: Map<SimulatedElement, EventListenerEntry[]> = new Map();
+
+  /** MutationObserver별 관찰 대상 (생성 순서대로 통지) */
+  private observers: Map<SimulatedMutationObserver, MutationRegistration[]> =
+    new Map();
+
+  constructor(tree: MockDomNode = mockDomTree) {
+    this.tree = tree;
+    this.document = {
+      __isSimulatedDocument: true,
+      body: this.build(tree, null),
+    };
+  }
+
+  /**
+   * 첫 번째로 일치하는 요소 (문서 순서)
+   */
+  querySelector(selector: string): SimulatedElement | null {
+    return this.querySelectorAll(selector)[0] ?? null;
+  }
+
+  /**
+   * 일치하는 모든 요소 (문서 순서)
+   * 복합 선택자(tag#id.class)와 공백 자손 결합자만 지원
+   */
+  querySelectorAll(selector: string): SimulatedElement[] {
+    const parts = selector.trim().split(/\s+/).map(this.parseCompound);
+    return this.allElements().filter((element) =>
+      this.matchesPath(element, parts),
+    );
+  }
+
+  /**
+   * id로 요소 조회
+   */
+  getElementById(id: string): SimulatedElement | null {
+    return this.allElements().find((element) => element.id === id) ?? null;
+  }
+
+  /**
+   * UI에서 사용자 입력 대상을 고를 수 있는 요소 선택자 목록
+   */
+  getSelectors(): string[] {
+    return this.allElements()
+      .filter((element) => element !== this.document.body)
+      .map((element) => {
+        if (element.id) return `#${element.id}`;
+        const siblings = this.querySelectorAll(this.describe(element));
+        return siblings.length > 1 ? null : this.describe(element);
+      })
+      .filter((selector): selector is string => selector !== null);
+  }
+
+  /**
+   * 리스너 등록 (같은 콜백/단계 조합은 한 번만 등록)
+   */
+  addEventListener(
+    element: SimulatedElement,
+    type: string,
+    callback: Closure,
+    capture: boolean,
+    once: boolean,
+  ): boolean {
+    const entries = this.listeners.get(element) ?? [];
+    const exists = entries.some(
+      (entry) =>
+        entry.type === type &&
+        entry.callback === callback &&
+        entry.capture === capture,
+    );
+    if (exists) return false;
+
+    entries.push({ type, callback, capture, once });
+    this.listeners.set(element, entries);
+    return true;
+  }
+
+  /**
+   * 리스너 제거
+   */
+  removeEventListener(
+    element: SimulatedElement,
+    type: string,
+    callback: Closure,
+    capture: boolean,
+  ): boolean {
+    const entries = this.listeners.get(element) ?? [];
+    const index = entries.findIndex(
+      (entry) =>
+        entry.type === type &&
+        entry.callback === callback &&
+        entry.capture === capture,
+    );
+    if (index === -1) return false;
+
+    entries.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * 속성 설정 (id/class는 요소 프로퍼티와 동기화)
+   * 변경 기록을 받은 MutationObserver가 있으면 true
+   */
+  setAttribute(
+    element: SimulatedElement,
+    name: string,
+    value: string,
+  ): boolean {
+    const oldValue = element.attributes[name] ?? null;
+    element.attributes[name] = value;
+    if (name === "id") element.id = value;
+    if (name === "class") element.className = value;
+
+    return this.queueMutationRecord({
+      type: "attributes",
+      target: element,
+      attributeName: name,
+      oldValue,
+    });
+  }
+
+  /**
+   * textContent 설정 (자식 노드를 텍스트 하나로 교체하는 childList 변경)
+   * 변경 기록을 받은 MutationObserver가 있으면 true
+   */
+  setTextContent(element: SimulatedElement, text: string): boolean {
+    element.textContent = text;
+    element.children = [];
+
+    return this.queueMutationRecord({
+      type: "childList",
+      target: element,
+      attributeName: null,
+      oldValue: null,
+    });
+  }
+
+  /**
+   * MutationObserver 관찰 시작 (같은 대상을 다시 관찰하면 옵션만 교체)
+   */
+  observe(
+    observer: SimulatedMutationObserver,
+    target: SimulatedElement,
+    options: MutationObserverOptions,
+  ): void {
+    const registrations = this.observers.get(observer) ?? [];
+    const existing = registrations.find((entry) => entry.target === target);
+    if (existing) {
+      existing.options = options;
+    } else {
+      registrations.push({ target, options });
+    }
+    this.observers.set(observer, registrations);
+  }
+
+  /**
+   * MutationObserver 관찰 중단 (전달 전인 기록도 버림)
+   */
+  disconnect(observer: SimulatedMutationObserver): void {
+    this.observers.delete(observer);
+    observer.records = [];
+  }
+
+  /**
+   * 전달할 기록이 있는 MutationObserver (생성 순서)
+   */
+  getPendingObservers(): SimulatedMutationObserver[] {
+    return [...this.observers.keys()].filter(
+      (observer) => observer.records.length > 0,
+    );
+  }
+
+  /**
+   * 요소에 등록된 특정 타입의 리스너 (디스패치 시작 시점의 복사본)
+   */
+  getListeners(element: SimulatedElement, type: string): EventListenerEntry[] {
+    return (this.listeners.get(element) ?? []).filter(
+      (entry) => entry.type === type,
+    );
+  }
+
+  /**
+   * 이벤트 경로 (루트 → 타깃)
+   */
+  getEventPath(target: SimulatedElement): SimulatedElement[] {
+    const path: SimulatedElement[] = [];
+    for (
+      let element: SimulatedElement | null = target;
+      element;
+      element = element.parentElement
+    ) {
+      path.unshift(element);
+    }
+    return path;
+  }
+
+  /**
+   * 요소를 짧은 선택자 형태로 표시 (div.inner, button#button)
+   */
+  describe(element: SimulatedElement): string {
+    const tag = element.tagName.toLowerCase();
+    if (element.id) return `${tag}#${element.id}`;
+    if (element.className) {
+      return `${tag}.${element.className.split(/\s+/).join(".")}`;
+    }
+    return tag;
+  }
+
+  /**
+   * 초기 트리로 되돌림 (리스너와 속성 변경 제거)
+   */
+  reset(): void {
+    this.listeners.clear();
+    this.observers.clear();
+    this.document.body = this.build(this.tree, null);
+  }
+
+  /**
+   * 변경을 관찰 중인 옵저버마다 기록 추가 (옵저버당 한 번)
+   */
+  private queueMutationRecord(record: SimulatedMutationRecord): boolean {
+    let queued = false;
+
+    for (const [observer, registrations] of this.observers) {
+      const registration = registrations.find((entry) =>
+        this.isInterested(entry, record),
+      );
+      if (!registration) continue;
+
+      observer.records.push({
+        ...record,
+        oldValue: registration.options.attributeOldValue
+          ? record.oldValue
+          : null,
+      });
+      queued = true;
+    }
+
+    return queued;
+  }
+
+  private isInterested(
+    { target, options }: MutationRegistration,
+    record: SimulatedMutationRecord,
+  ): boolean {
+    const inScope =
+      record.target === target ||
+      (options.subtree === true &&
+        this.getEventPath(record.target).includes(target));
+    if (!inScope) return false;
+
+    if (record.type === "childList") return options.childList === true;
+
+    return (
+      options.attributes === true &&
+      (!options.attributeFilter ||
+        options.attributeFilter.includes(record.attributeName ?? ""))
+    );
+  }
+
+  private build(
+    node: MockDomNode,
+    parent: SimulatedElement | null,
+  ): SimulatedElement {
+    const attributes: Record<string, string> = {};
+    if (node.id) attributes.id = node.id;
+    if (node.class) attributes.class = node.class;
+
+    const element: SimulatedElement = {
+      __isSimulatedElement: true,
+      tagName: node.tag.toUpperCase(),
+      id: node.id ?? "",
+      className: node.class ?? "",
+      textContent: node.text ?? "",
+      attributes,
+      parentElement: parent,
+      children: [],
+    };
+    element.children = (node.children ?? []).map((child) =>
+      this.build(child, element),
+    );
+
+    return element;
+  }
+
+  /**
+   * 문서 순서(전위 순회)로 모든 요소 나열
+   */
+  private allElements(): SimulatedElement[] {
+    const result: SimulatedElement[] = [];
+    const visit = (element: SimulatedElement) => {
+      result.push(element);
+      element.children.forEach(visit);
+    };
+    visit(this.document.body);
+    return result;
+  }
+
+  private parseCompound = (text: string): CompoundSelector => {
+    const selector: CompoundSelector = { tag: null, id: null, classes: [] };
+
+    for (const token of text.match(/[#.]?[^#.]+/g) ?? []) {
+      if (token.startsWith("#")) {
+        selector.id = token.slice(1);
+      } else if (token.startsWith(".")) {
+        selector.classes.push(token.slice(1));
+      } else {
+        selector.tag = token.toUpperCase();
+      }
+    }
+
+    return selector;
+  };
+
+  private matchesCompound(
+    element: SimulatedElement,
+    selector: CompoundSelector,
+  ): boolean {
+    const classes = element.className.split(/\s+/);
+    return (
+      (selector.tag === null || element.tagName === selector.tag) &&
+      (selector.id === null || element.id === selector.id) &&
+      selector.classes.every((name) => classes.includes(name))
+    );
+  }
+
+  /**
+   * 자손 결합자: 마지막 선택자는 요소 자신, 앞 선택자들은 조상 중에서 순서대로 일치
+   */
+  private matchesPath(
+    element: SimulatedElement,
+    parts: CompoundSelector[],
+  ): boolean {
+    const last = parts[parts.length - 1];
+    if (!last || !this.matchesCompound(element, last)) return false;
+
+    let index = parts.length - 2;
+    for (
+      let ancestor = element.parentElement;
+      ancestor && index >= 0;
+      ancestor = ancestor.parentElement
+    ) {
+      if (this.matchesCompound(ancestor, parts[index])) index--;
+    }
+
+    return index < 0;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * 구조화된 복제 (postMessage 메시지 복사)
+ * 원시값, 배열, 일반 객체, Map, Set, Date, 에러를 깊게 복사하고 순환 참조를 유지
+ * 함수와 시뮬레이션 내부 객체(Promise, DOM 요소 등)는 복제할 수 없음
+ */
+
+import { DataCloneError } from "./types";
+
+export function structuredCloneValue(
+  value: unknown,
+  memo: Map<object, unknown> = new Map(),
+): unknown {
+  if (value === null || typeof value !== "object") {
+    if (typeof value === "function" || typeof value === "symbol") {
+      throw new DataCloneError(`${String(value)} could not be cloned.`);
+    }
+    return value;
+  }
+
+  const existing = memo.get(value);
+  if (existing !== undefined) return existing;
+
+  // 클로저와 시뮬레이션 내부 객체는 복제 불가
+  if ("functionNode" in value) {
+    throw new DataCloneError("function could not be cloned.");
+  }
+  if (Object.keys(value).some((key) => key.startsWith("__isSimulated"))) {
+    throw new DataCloneError("#<Object> could not be cloned.");
+  }
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    memo.set(value, copy);
+    for (const item of value) copy.push(structuredCloneValue(item, memo));
+    return copy;
+  }
+
+  if (value instanceof Date) return new Date(value.getTime());
+
+  if (value instanceof Map) {
+    const copy = new Map();
+    memo.set(value, copy);
+    for (const [key, item] of value) {
+      copy.set(
+        structuredCloneValue(key, memo),
+        structuredCloneValue(item, memo),
+      );
+    }
+    return copy;
+  }
+
+  if (value instanceof Set) {
+    const copy = new Set();
+    memo.set(value, copy);
+    for (const item of value) copy.add(structuredCloneValue(item, memo));
+    return copy;
+  }
+
+  // 에러는 같은 종류의 에러로 복사 (message/stack은 숨김 속성)
+  if (value instanceof Error) {
+    const copy = Object.create(Object.getPrototypeOf(value));
+    memo.set(value, copy);
+    for (const key of ["message", "stack", "cause"]) {
+      if (Object.hasOwn(value, key)) {
+        Object.defineProperty(copy, key, {
+          value: (value as unknown as Record<string, unknown>)[key],
+          writable: true,
+          configurable: true,
+        });
+      }
+    }
+    return copy;
+  }
+
+  // 일반 객체와 클래스 인스턴스: 자체 열거 가능 속성만 복사 (프로토타입은 사라짐)
+  const copy: Record<string, unknown> = {};
+  memo.set(value, copy);
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = structuredCloneValue(item, memo);
+  }
+  return copy;
+}
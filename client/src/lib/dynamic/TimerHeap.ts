@@ -0,0 +1,135 @@
+/**
+ * 타이머 힙
+ * 만료 시각(dueTime) 기준 최소 힙, 같은 시각이면 등록 순서대로 꺼냄
+ */
+
+import type { ScheduledTimer } from "./types";
+
+export class TimerHeap {
+  /** 이진 힙 배열 */
+  private heap: ScheduledTimer[] = [];
+
+  /**
+   * 타이머 추가
+   */
+  push(timer: ScheduledTimer): void {
+    this.heap.push(timer);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  /**
+   * 가장 먼저 만료되는 타이머 조회
+   */
+  peek(): ScheduledTimer | undefined {
+    return this.heap[0];
+  }
+
+  /**
+   * 가장 먼저 만료되는 타이머 꺼내기
+   */
+  pop(): ScheduledTimer | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+
+    if (top && last && this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  /**
+   * ID로 타이머 조회
+   */
+  get(id: number): ScheduledTimer | undefined {
+    return this.heap.find((timer) => timer.id === id);
+  }
+
+  /**
+   * ID로 타이머 제거 (clearTimeout/clearInterval)
+   */
+  remove(id: number): boolean {
+    const index = this.heap.findIndex((timer) => timer.id === id);
+    if (index === -1) return false;
+
+    const last = this.heap.pop() as ScheduledTimer;
+    if (index < this.heap.length) {
+      this.heap[index] = last;
+      this.siftDown(index);
+      this.siftUp(index);
+    }
+
+    return true;
+  }
+
+  /**
+   * 만료 순서대로 정렬된 타이머 목록 (UI 표시용)
+   */
+  toSortedArray(): ScheduledTimer[] {
+    return [...this.heap].sort((a, b) => this.compare(a, b));
+  }
+
+  /**
+   * 타이머 개수
+   */
+  get size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * 전체 비우기
+   */
+  clear(): void {
+    this.heap = [];
+  }
+
+  /**
+   * 비교 함수 (만료 시각 → 등록 순서)
+   */
+  private compare(a: ScheduledTimer, b: ScheduledTimer): number {
+    return a.dueTime - b.dueTime || a.sequence - b.sequence;
+  }
+
+  private siftUp(index: number): void {
+    let child = index;
+
+    while (child > 0) {
+      const parent = (child - 1) >> 1;
+      if (this.compare(this.heap[child], this.heap[parent]) >= 0) break;
+      this.swap(child, parent);
+      child = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    let parent = index;
+
+    while (true) {
+      const left = parent * 2 + 1;
+      const right = left + 1;
+      let smallest = parent;
+
+      if (
+        left < this.heap.length &&
+        this.compare(this.heap[left], this.heap[smallest]) < 0
+      ) {
+        smallest = left;
+      }
+      if (
+        right < this.heap.length &&
+        this.compare(this.heap[right], this.heap[smallest]) < 0
+      ) {
+        smallest = right;
+      }
+      if (smallest === parent) break;
+
+      this.swap(parent, smallest);
+      parent = smallest;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    [this.heap[i], this.heap[j]] = [this.heap[j], this.heap[i]];
+  }
+}
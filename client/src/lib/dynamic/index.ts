@@ -7,8 +7,10 @@ import type { ExecutionState } from "@shared/schema";
 import { ASTInterpreter } from "./ASTInterpreter";
 import { CodeParser } from "./CodeParser";
 import type {
+  Breakpoint,
   DynamicEngineConfig,
   ExecutionStep,
+  ExpressionResult,
   LoadCodeResult,
   ParseError,
 } from "./types";
@@ -20,6 +22,9 @@ export class DynamicExecutionEngine {
   /** 생성된 실행 단계들 */
   private steps: ExecutionStep[] = [];
 
+  /** 트레이스를 만든 인터프리터 (단계별 식 평가용) */
+  private interpreter: ASTInterpreter | null = null;
+
   /** 현재 스텝 인덱스 */
   private currentStep = 0;
 
@@ -44,6 +49,7 @@ export class DynamicExecutionEngine {
     if (!parseResult.success || !parseResult.ast) {
       this.parseErrors = parseResult.errors;
       this.steps = [];
+      this.interpreter = null;
       return {
         success: false,
         errors: parseResult.errors,
@@ -55,6 +61,12 @@ export class DynamicExecutionEngine {
       maxSteps: this.config.maxSteps ?? 1000,
       maxCallStackDepth: this.config.maxCallStackDepth ?? 100,
       maxLoopIterations: this.config.maxLoopIterations ?? 100,
+      maxIntervalTicks: this.config.maxIntervalTicks ?? 10,
+      runtime: this.config.runtime ?? "browser",
+      loopIterationCost: this.config.loopIterationCost ?? 1,
+      network: this.config.network,
+      userEvents: this.config.userEvents ?? [],
+      workerScripts: this.config.workerScripts ?? {},
     });
 
     try {
@@ -62,6 +74,7 @@ export class DynamicExecutionEngine {
         parseResult.ast,
         parseResult.sourceMap,
       );
+      this.interpreter = interpreter;
       this.currentStep = 0;
       this.parseErrors = [];
 
@@ -95,6 +108,8 @@ export class DynamicExecutionEngine {
       microtaskQueue: [],
       consoleOutput: [],
       currentLine: null,
+      stepIndex: 0,
+      totalSteps: this.steps.length,
       isRunning: false,
       isPaused: false,
       speed: 500,
@@ -117,15 +132,138 @@ export class DynamicExecutionEngine {
       return null;
     }
 
-    const stepData = this.steps[this.currentStep];
     this.currentStep++;
+    return this.getStepState();
+  }
+
+  /**
+   * 현재 함수 호출을 건너뛰고 같은 깊이 이하의 다음 단계로 이동 (step over)
+   * 콜스택이 비어 있으면 곧 실행될 프레임을 기준으로 함 (전역 코드나 다음 콜백의 첫 단계)
+   * 도중에 브레이크포인트에 걸리면 그 단계에서 멈춤
+   */
+  stepOver(breakpoints: Breakpoint[] = []): ExecutionState | null {
+    const current = this.getStackPosition(this.currentStep);
+    const origin =
+      current.depth === 0
+        ? this.getStackPosition(this.currentStep + 1)
+        : current;
+    return this.advanceUntil((index) => {
+      const position = this.getStackPosition(index);
+      return position.agent === origin.agent && position.depth <= origin.depth;
+    }, breakpoints);
+  }
+
+  /**
+   * 현재 함수가 반환할 때까지 실행 (step out)
+   * 콜스택이 비어 있으면 step over와 같음
+   */
+  stepOut(breakpoints: Breakpoint[] = []): ExecutionState | null {
+    const origin = this.getStackPosition(this.currentStep);
+    if (origin.depth === 0) {
+      return this.stepOver(breakpoints);
+    }
+    return this.advanceUntil((index) => {
+      const position = this.getStackPosition(index);
+      return position.agent === origin.agent && position.depth < origin.depth;
+    }, breakpoints);
+  }
+
+  /**
+   * 이벤트 루프가 다음 콜백을 실행하는 단계까지 이동
+   * 빈 콜스택에 프레임이 올라오는 지점 (태스크, 마이크로태스크, 워커 포함)
+   */
+  runToNextTick(breakpoints: Breakpoint[] = []): ExecutionState | null {
+    return this.advanceUntil(
+      (index) =>
+        this.getStackPosition(index).depth > 0 &&
+        this.getStackPosition(index - 1).depth === 0,
+      breakpoints,
+    );
+  }
+
+  /**
+   * 조건을 만족하는 단계까지 한 단계씩 진행 (없으면 마지막 단계)
+   */
+  private advanceUntil(
+    reached: (index: number) => boolean,
+    breakpoints: Breakpoint[],
+  ): ExecutionState | null {
+    if (this.currentStep >= this.steps.length) {
+      return null;
+    }
+
+    this.stop();
+    while (this.currentStep < this.steps.length) {
+      this.currentStep++;
+      if (reached(this.currentStep) || this.isBreakpointHit(breakpoints)) {
+        break;
+      }
+    }
+
+    return this.getStepState();
+  }
+
+  /**
+   * index번째 단계까지 적용한 시점의 콜스택 깊이 (워커 단계는 워커 콜스택 기준)
+   */
+  private getStackPosition(index: number): {
+    agent: string | null;
+    depth: number;
+  } {
+    const step = this.steps[index - 1];
+    if (!step) return { agent: null, depth: 0 };
+
+    const stack = step.activeAgent
+      ? step.agents.find((agent) => agent.name === step.activeAgent)?.callStack
+      : step.callStack;
+    return { agent: step.activeAgent, depth: stack?.length ?? 0 };
+  }
+
+  /**
+   * 한 단계 되돌리기
+   */
+  stepBack(): ExecutionState | null {
+    if (this.currentStep === 0) {
+      return null;
+    }
+
+    return this.seek(this.currentStep - 1);
+  }
+
+  /**
+   * 임의의 단계로 이동 (0이면 실행 전 초기 상태)
+   * 각 단계가 전체 상태 스냅샷이므로 다시 실행하지 않고 바로 이동
+   */
+  seek(index: number): ExecutionState {
+    this.currentStep = Math.max(0, Math.min(index, this.steps.length));
+
+    if (this.currentStep === 0) {
+      return this.getInitialState();
+    }
+    return this.getStepState();
+  }
+
+  /**
+   * 마지막으로 적용한 단계의 상태 반환
+   */
+  private getStepState(): ExecutionState {
+    const stepData = this.steps[this.currentStep - 1];
 
     return {
       callStack: stepData.callStack,
+      suspendedFrames: stepData.suspendedFrames,
       taskQueue: stepData.taskQueue,
       microtaskQueue: stepData.microtaskQueue,
       consoleOutput: stepData.consoleOutput,
       currentLine: stepData.currentLine,
+      currentTime: stepData.currentTime,
+      phase: stepData.phase,
+      animationQueue: stepData.animationQueue,
+      webApis: stepData.webApis,
+      agents: stepData.agents,
+      activeAgent: stepData.activeAgent,
+      stepIndex: this.currentStep,
+      totalSteps: this.steps.length,
       isRunning: this.currentStep < this.steps.length,
       isPaused: false,
       speed: 500,
@@ -134,8 +272,13 @@ export class DynamicExecutionEngine {
 
   /**
    * 자동 재생 시작
+   * 브레이크포인트 줄에 들어선 단계에서 일시정지
    */
-  play(speed: number, onStep: (state: ExecutionState) => void): void {
+  play(
+    speed: number,
+    onStep: (state: ExecutionState) => void,
+    breakpoints: Breakpoint[] = [],
+  ): void {
     this.stop();
 
     const executeStep = () => {
@@ -147,6 +290,9 @@ export class DynamicExecutionEngine {
         if (this.currentStep >= this.steps.length) {
           this.stop();
           onStep({ ...state, isRunning: false });
+        } else if (this.isBreakpointHit(breakpoints)) {
+          this.stop();
+          onStep({ ...state, isRunning: false, isPaused: true });
         }
       } else {
         this.stop();
@@ -156,6 +302,60 @@ export class DynamicExecutionEngine {
     this.intervalId = window.setInterval(executeStep, speed);
   }
 
+  /**
+   * 마지막으로 적용한 단계가 브레이크포인트에 걸렸는지 확인
+   * 같은 줄에 머무는 동안은 다시 멈추지 않고, 조건식은 그 단계의 스코프에서 평가
+   */
+  private isBreakpointHit(breakpoints: Breakpoint[]): boolean {
+    const step = this.steps[this.currentStep - 1];
+    const previous = this.steps[this.currentStep - 2];
+    if (!step || step.currentLine === null || step.activeAgent) return false;
+    if (
+      previous &&
+      !previous.activeAgent &&
+      previous.currentLine === step.currentLine
+    ) {
+      return false;
+    }
+
+    return breakpoints.some((breakpoint) => {
+      if (breakpoint.line !== step.currentLine) return false;
+      if (!breakpoint.condition) return true;
+
+      // 조건식 평가 에러는 멈추지 않음
+      const result = this.evaluate(breakpoint.condition);
+      return result.success && Boolean(result.value);
+    });
+  }
+
+  /**
+   * 현재 단계 시점의 스코프에서 식 평가 (부작용 없는 식만)
+   */
+  evaluate(expression: string): ExpressionResult {
+    const scope = this.steps[this.currentStep - 1]?.scope;
+    if (!this.interpreter || !scope) {
+      return { success: false, error: "실행 전입니다" };
+    }
+
+    try {
+      const { value, live } = this.interpreter.evaluateInScope(
+        expression,
+        scope,
+      );
+      return {
+        success: true,
+        value,
+        display: this.interpreter.formatValue(value),
+        live,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * 재생 중지
    */
@@ -204,5 +404,14 @@ export class DynamicExecutionEngine {
   }
 }
 
+export { SimulatedDom } from "./SimulatedDom";
+
 // 타입 재 export
-export type { DynamicEngineConfig, ExecutionStep, ParseError } from "./types";
+export type {
+  Breakpoint,
+  DynamicEngineConfig,
+  ExecutionStep,
+  ExpressionResult,
+  ParseError,
+  UserEvent,
+} from "./types";
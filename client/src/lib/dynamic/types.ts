@@ -3,10 +3,12 @@
  */
 
 import type {
+  AgentState,
   ConsoleLog,
   ExecutionState,
   QueueItem,
   StackFrame,
+  WebApiItem,
 } from "@shared/schema";
 import type { Node } from "acorn";
 
@@ -46,8 +48,12 @@ export interface Scope {
   type: ScopeType;
   parent: Scope | null;
   variables: Map<string, VariableBinding>;
-  /** 함수 스코프의 this 바인딩 */
+  /** 함수 스코프의 this 바인딩 (화살표 함수 스코프에는 없음) */
   thisBinding?: unknown;
+  /** 함수 스코프를 만든 클로저 (super 조회, 스코프 패널의 함수 이름용) */
+  functionClosure?: Closure;
+  /** 파생 클래스 생성자에서 아직 super()를 호출하지 않음 (this 접근 불가) */
+  thisUninitialized?: boolean;
 }
 
 /** 변수 바인딩 정보 */
@@ -69,6 +75,46 @@ export interface Closure {
   name: string | null;
   /** async 함수 여부 */
   isAsync?: boolean;
+  /** 제너레이터 함수 여부 (function*) */
+  isGenerator?: boolean;
+  /** 메서드가 정의된 클래스 (super 조회, 콜스택 프레임 이름용) */
+  homeClass?: SimulatedClass;
+  /** static 메서드 여부 */
+  isStatic?: boolean;
+  /** bind()의 원래 함수 */
+  boundTarget?: Closure;
+  /** bind()로 고정된 this */
+  boundThis?: unknown;
+  /** bind()로 고정된 앞쪽 인자 */
+  boundArgs?: unknown[];
+}
+
+/** 클래스 필드 정의 */
+export interface ClassFieldDefinition {
+  /** 필드 이름 (private 필드는 '#' 접두사 포함) */
+  key: string;
+  /** 초기화 표현식을 감싼 클로저 (없으면 undefined로 초기화) */
+  initializer: Closure | null;
+}
+
+/**
+ * 시뮬레이션된 클래스
+ * static 멤버는 클래스 객체 자체의 속성으로 저장됨
+ */
+export interface SimulatedClass {
+  __isSimulatedClass: true;
+  name: string;
+  /** constructor 메서드 (없으면 암묵적 생성자) */
+  constructorClosure: Closure | null;
+  /** extends로 지정된 부모 클래스 */
+  parentClass: SimulatedClass | null;
+  /** 인스턴스 메서드와 접근자가 정의된 프로토타입 객체 */
+  prototype: Record<string, unknown>;
+  /** 인스턴스 필드 정의 */
+  instanceFields: ClassFieldDefinition[];
+  /** 내장 클래스(Error 등)의 생성자 구현 (사용자 클래스에는 없음) */
+  nativeInit?: (instance: Record<string, unknown>, args: unknown[]) => void;
+  [key: string]: unknown;
 }
 
 // ============================================
@@ -95,8 +141,37 @@ export interface ScheduledTask {
   resolvedValue?: unknown;
   /** Promise.all/race 내부 처리용 콜백 (클로저 실행 대신 사용) */
   internalCallback?: () => void;
+  /** 타이머에서 온 태스크의 타이머 ID (clearTimeout용) */
+  timerId?: number;
+  /** setInterval 태스크 여부 (실행 후 재등록) */
+  repeat?: boolean;
+  /** 콜백에 전달할 추가 인자 (setTimeout(fn, delay, ...args) 등) */
+  args?: unknown[];
 }
 
+/** 가상 시계에 등록된 타이머 (setTimeout 등) */
+export interface ScheduledTimer {
+  /** 타이머 ID (setTimeout 반환값) */
+  id: number;
+  /** 만료 시각 (가상 시간, ms) */
+  dueTime: number;
+  /** 만료 시각이 같을 때의 등록 순서 */
+  sequence: number;
+  /** 만료 시 태스크 큐에 들어갈 태스크 */
+  task: Omit<ScheduledTask, "id" | "type">;
+}
+
+/** 시뮬레이션할 런타임 */
+export type RuntimeMode = "browser" | "node";
+
+/** Node.js 이벤트 루프 단계 (libuv) */
+export type EventLoopPhase =
+  | "timers"
+  | "pending callbacks"
+  | "poll"
+  | "check"
+  | "close callbacks";
+
 /** 실행 단계 정보 */
 export interface ExecutionStep {
   callStack: StackFrame[];
@@ -106,6 +181,22 @@ export interface ExecutionStep {
   currentLine: number | null;
   /** 현재 단계 설명 */
   description: string;
+  /** 콜스택을 떠나 일시 중지된 제너레이터 프레임 */
+  suspendedFrames: StackFrame[];
+  /** 가상 시계의 현재 시각 (ms) */
+  currentTime: number;
+  /** 처리 중인 이벤트 루프 단계 (Node.js 모드) */
+  phase: EventLoopPhase | null;
+  /** 다음 렌더링 기회에 실행될 requestAnimationFrame 콜백 */
+  animationQueue: QueueItem[];
+  /** 태스크가 되기 전 호스트가 들고 있는 타이머/네트워크 요청 */
+  webApis: WebApiItem[];
+  /** Web Worker 에이전트 상태 (각자 콜스택과 큐를 가짐) */
+  agents: AgentState[];
+  /** 이 단계를 실행한 에이전트 이름 (메인 스레드는 null) */
+  activeAgent: string | null;
+  /** 이 단계 시점의 스코프 체인 복사본 (단계별 식 평가용) */
+  scope: Scope | null;
 }
 
 // ============================================
@@ -120,6 +211,18 @@ export interface InterpreterConfig {
   maxCallStackDepth: number;
   /** 최대 루프 반복 횟수 */
   maxLoopIterations: number;
+  /** setInterval 하나가 실행될 수 있는 최대 횟수 (틱 예산) */
+  maxIntervalTicks: number;
+  /** 시뮬레이션할 런타임 (브라우저 / Node.js) */
+  runtime: RuntimeMode;
+  /** 루프 반복 1회에 드는 가상 시간 (ms, 긴 태스크 시뮬레이션용) */
+  loopIterationCost: number;
+  /** fetch() 모의 라우트 (없으면 mockNetwork.json 사용) */
+  network?: MockNetworkConfig;
+  /** UI에서 주입한 사용자 입력 (브라우저 전용) */
+  userEvents: UserEvent[];
+  /** new Worker(url)로 실행할 스크립트 (url → 코드) */
+  workerScripts: Record<string, string>;
 }
 
 /** 인터프리터 기본 설정 */
@@ -127,6 +230,11 @@ export const DEFAULT_INTERPRETER_CONFIG: InterpreterConfig = {
   maxSteps: 1000,
   maxCallStackDepth: 100,
   maxLoopIterations: 100,
+  maxIntervalTicks: 10,
+  runtime: "browser",
+  loopIterationCost: 1,
+  userEvents: [],
+  workerScripts: {},
 };
 
 /** 함수 호출 결과 */
@@ -143,7 +251,7 @@ export type PromiseState = "pending" | "fulfilled" | "rejected";
 /** Promise 콜백 핸들러 (체이닝 정보 포함) */
 export interface PromiseHandler {
   callback: Closure;
-  chainedPromise: SimulatedPromise;
+  chainedPromise?: SimulatedPromise;
   /** Promise.all/race 내부 처리용 콜백 */
   internalHandler?: (value: unknown) => void;
 }
@@ -169,10 +277,155 @@ export interface SimulatedMessageChannel {
 
 /** 시뮬레이션된 MessagePort */
 export interface SimulatedMessagePort {
+  __isSimulatedMessagePort: true;
   id: string;
   channelId: string;
+  /** port1 / port2 */
+  name: string;
+  onmessage: Closure | null;
+  /** 연결된 반대편 포트 (close() 후 null) */
+  entangled: SimulatedMessagePort | null;
+  /** start() 또는 onmessage 설정으로 메시지 전달을 시작했는지 */
+  started: boolean;
+  /** 시작 전에 도착해 포트 메시지 큐에 쌓인 메시지 */
+  pendingMessages: unknown[];
+}
+
+/** fetch() 모의 라우트 (mockNetwork.json) */
+export interface MockRoute {
+  /** 응답 지연 (가상 ms, 없으면 defaultLatency) */
+  latency?: number;
+  /** HTTP 상태 코드 (기본 200) */
+  status?: number;
+  /** 응답 본문 (문자열이 아니면 JSON으로 직렬화) */
+  body?: unknown;
+  /** true면 응답 대신 네트워크 오류 (TypeError: Failed to fetch) */
+  networkError?: boolean;
+}
+
+/** fetch() 모의 네트워크 설정 */
+export interface MockNetworkConfig {
+  defaultLatency: number;
+  /** 경로(쿼리 포함 가능) → 라우트 */
+  routes: Record<string, MockRoute>;
+}
+
+/** 시뮬레이션된 fetch Response */
+export interface SimulatedResponse {
+  __isSimulatedResponse: true;
+  url: string;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  /** 본문을 이미 읽었는지 (json()/text()는 한 번만 호출 가능) */
+  bodyUsed: boolean;
+  /** 응답 본문 문자열 */
+  body: string;
+}
+
+/** 시뮬레이션 DOM 초기 트리 노드 (mockDom.json) */
+export interface MockDomNode {
+  tag: string;
+  id?: string;
+  class?: string;
+  text?: string;
+  children?: MockDomNode[];
+}
+
+/** 시뮬레이션된 DOM 요소 */
+export interface SimulatedElement {
+  __isSimulatedElement: true;
+  /** 대문자 태그 이름 (DIV, BUTTON 등) */
+  tagName: string;
+  id: string;
+  className: string;
+  textContent: string;
+  attributes: Record<string, string>;
+  parentElement: SimulatedElement | null;
+  children: SimulatedElement[];
+}
+
+/** 시뮬레이션된 document */
+export interface SimulatedDocument {
+  __isSimulatedDocument: true;
+  body: SimulatedElement;
+}
+
+/** 요소에 등록된 이벤트 리스너 */
+export interface EventListenerEntry {
+  type: string;
+  callback: Closure;
+  /** 캡처 단계에서 실행할지 여부 */
+  capture: boolean;
+  /** 한 번 실행되면 제거되는지 여부 ({ once: true }) */
+  once: boolean;
+}
+
+/** 리스너에 전달되는 이벤트 객체 */
+export interface SimulatedEvent {
+  __isSimulatedEvent: true;
+  type: string;
+  target: SimulatedElement;
+  currentTarget: SimulatedElement | null;
+  /** 0: 없음, 1: 캡처, 2: 타깃, 3: 버블 */
+  eventPhase: number;
+  bubbles: boolean;
+  /** 사용자 입력이면 true, el.click() 등 스크립트 디스패치면 false */
+  isTrusted: boolean;
+  defaultPrevented: boolean;
+  /** stopPropagation() 호출 여부 */
+  cancelBubble: boolean;
+}
+
+/** MutationObserver.observe() 옵션 */
+export interface MutationObserverOptions {
+  attributes?: boolean;
+  attributeFilter?: string[];
+  attributeOldValue?: boolean;
+  childList?: boolean;
+  subtree?: boolean;
+}
+
+/** DOM 변경 기록 (MutationRecord) */
+export interface SimulatedMutationRecord {
+  type: "attributes" | "childList";
+  target: SimulatedElement;
+  attributeName: string | null;
+  oldValue: string | null;
+}
+
+/** 시뮬레이션된 MutationObserver */
+export interface SimulatedMutationObserver {
+  __isSimulatedMutationObserver: true;
+  callback: Closure;
+  /** 콜백에 아직 전달되지 않은 변경 기록 */
+  records: SimulatedMutationRecord[];
+}
+
+/** UI에서 주입하는 사용자 입력 */
+export interface UserEvent {
+  type: "click";
+  /** 대상 요소 선택자 */
+  selector: string;
+  /** 입력이 발생하는 가상 시각 (ms) */
+  time: number;
+}
+
+/** 시뮬레이션된 Worker 객체 (메인 스레드 쪽 핸들) */
+export interface SimulatedWorker {
+  __isSimulatedWorker: true;
+  /** 에이전트 이름 (worker.js #1) */
+  name: string;
+  onmessage: Closure | null;
+  /** 스크립트를 불러오지 못했을 때 호출되는 핸들러 */
+  onerror: Closure | null;
+}
+
+/** 워커 안의 전역 객체 (self) */
+export interface SimulatedWorkerScope {
+  __isSimulatedWorkerScope: true;
+  name: string;
   onmessage: Closure | null;
-  postMessage: (data: unknown) => void;
 }
 
 // ============================================
@@ -184,6 +437,12 @@ export interface DynamicEngineConfig {
   maxSteps?: number;
   maxCallStackDepth?: number;
   maxLoopIterations?: number;
+  maxIntervalTicks?: number;
+  runtime?: RuntimeMode;
+  loopIterationCost?: number;
+  network?: MockNetworkConfig;
+  userEvents?: UserEvent[];
+  workerScripts?: Record<string, string>;
 }
 
 /** 코드 로드 결과 */
@@ -192,6 +451,24 @@ export interface LoadCodeResult {
   errors?: ParseError[];
 }
 
+/** 브레이크포인트 (main.js 기준 줄 번호) */
+export interface Breakpoint {
+  line: number;
+  /** 참일 때만 멈추는 조건식 (null이면 항상 멈춤) */
+  condition: string | null;
+}
+
+/** 단계별 식 평가 결과 */
+export interface ExpressionResult {
+  success: boolean;
+  value?: unknown;
+  /** Watch 패널 표시용 문자열 */
+  display?: string;
+  /** 단계별로 고정되지 않는 내부 객체(Promise, DOM 요소 등)를 읽음 - 최신 상태가 보임 */
+  live?: boolean;
+  error?: string;
+}
+
 // ============================================
 // 에러 타입
 // ============================================
@@ -215,6 +492,14 @@ export class RuntimeError extends Error {
   }
 }
 
+/** 구조화된 복제 실패 (postMessage로 함수 등을 보낼 때) */
+export class DataCloneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DataCloneError";
+  }
+}
+
 /** 사용자 코드에서 throw된 에러 (인터프리터 내부 전파용) */
 export interface ThrownError {
   __isThrownError: true;
@@ -226,12 +511,65 @@ export interface AwaitSuspension {
   __isAwaitSuspension: true;
   /** await된 Promise */
   promise: SimulatedPromise;
-  /** await 이후 실행할 노드들 */
-  remainingStatements: Node[];
-  /** 현재 스코프 정보 */
+  /** 일시 중지 시점의 스코프 */
   scopeSnapshot: Scope;
 }
 
+/** yield에 의한 제너레이터 일시 중지 (인터프리터 내부용) */
+export interface YieldSuspension {
+  __isYieldSuspension: true;
+  /** yield된 값 */
+  value: unknown;
+}
+
+/** 제너레이터의 .return() 호출 (인터프리터 내부 전파용) */
+export interface GeneratorReturn {
+  __isGeneratorReturn: true;
+  value: unknown;
+}
+
+/** 실행 일시 중지 지점 */
+export type Suspension = AwaitSuspension | YieldSuspension;
+
+/**
+ * 노드 평가 제너레이터
+ * await/yield 지점에서 Suspension을 yield하고, 재개 시 전달된 값을 받음
+ */
+export type Evaluation<T = unknown> = Generator<Suspension, T, unknown>;
+
+/** 일시 중지 가능한 async 실행 단위 (async 함수 호출, top-level 스크립트) */
+export interface AsyncActivation {
+  /** 함수 본문 평가 제너레이터 */
+  evaluation: Evaluation;
+  /** 일시 중지 시점의 스코프 (재개 시 복원) */
+  scope: Scope;
+  /** async 함수의 결과 Promise */
+  promise: SimulatedPromise;
+  /** 콜스택 표시용 이름 */
+  name: string;
+}
+
+/** 제너레이터 객체 상태 */
+export type GeneratorState =
+  | "suspendedStart"
+  | "suspendedYield"
+  | "executing"
+  | "completed";
+
+/** 시뮬레이션된 제너레이터 객체 (function* 호출 결과) */
+export interface SimulatedGenerator {
+  __isSimulatedGenerator: true;
+  /** 콜스택 표시용 이름 */
+  name: string;
+  state: GeneratorState;
+  /** 함수 본문 평가 제너레이터 */
+  evaluation: Evaluation;
+  /** 일시 중지 시점의 스코프 (재개 시 복원) */
+  scope: Scope;
+  /** 일시 중지된 동안 보관되는 콜스택 프레임 (처음 .next() 전에는 null) */
+  frame: StackFrame | null;
+}
+
 // ============================================
 // 유틸리티 타입
 // ============================================
@@ -2,21 +2,46 @@ import type { CodeExample, ExecutionState } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import { Loader2 } from "lucide-react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AgentPanel } from "@/components/AgentPanel";
 import { CallStackPanel } from "@/components/CallStackPanel";
 import { CodeEditor } from "@/components/CodeEditor";
 import { ConsolePanel } from "@/components/ConsolePanel";
 import { ExampleModal } from "@/components/ExampleModal";
 import { QueuePanel } from "@/components/QueuePanel";
+import { ScopePanel } from "@/components/ScopePanel";
 import { TopBar } from "@/components/TopBar";
-import { DynamicExecutionEngine } from "@/lib/dynamic";
+import { UserEventBar } from "@/components/UserEventBar";
+import { WatchPanel } from "@/components/WatchPanel";
+import { WebApisPanel } from "@/components/WebApisPanel";
+import {
+  type Breakpoint,
+  DynamicExecutionEngine,
+  SimulatedDom,
+  type UserEvent,
+} from "@/lib/dynamic";
 import { LAYOUT_CONFIG } from "@/lib/layoutConfig";
-import type { ParseError } from "@/lib/dynamic/types";
+import type { ParseError, RuntimeMode } from "@/lib/dynamic/types";
+import { cn } from "@/lib/utils";
+
+/** new Worker("worker.js")로 실행되는 두 번째 코드 탭의 기본 코드 */
+const DEFAULT_WORKER_CODE = `// new Worker("worker.js")로 실행되는 코드
+self.onmessage = (event) => {
+  console.log("worker received", event.data);
+  postMessage(event.data * 2);
+};
+`;
 
 export default function Visualizer() {
   const [selectedExample, setSelectedExample] = useState<CodeExample | null>(
     null,
   );
   const [code, setCode] = useState("");
+
+  /** 워커 스크립트 (worker.js 탭) */
+  const [workerCode, setWorkerCode] = useState(DEFAULT_WORKER_CODE);
+
+  /** 에디터에 표시 중인 탭 */
+  const [activeTab, setActiveTab] = useState<"main" | "worker">("main");
   const [executionState, setExecutionState] = useState<ExecutionState>({
     callStack: [],
     taskQueue: [],
@@ -28,6 +53,21 @@ export default function Visualizer() {
     speed: 500,
   });
 
+  /** 시뮬레이션 런타임 (브라우저 / Node.js) */
+  const [runtime, setRuntime] = useState<RuntimeMode>("browser");
+
+  /** UI에서 주입한 사용자 클릭 (브라우저 모드) */
+  const [userEvents, setUserEvents] = useState<UserEvent[]>([]);
+
+  /** 사용자 클릭을 보낼 수 있는 DOM 요소 선택자 */
+  const userEventTargets = useMemo(() => new SimulatedDom().getSelectors(), []);
+
+  /** main.js 브레이크포인트 (재생이 이 줄에 들어서면 일시정지) */
+  const [breakpoints, setBreakpoints] = useState<Breakpoint[]>([]);
+
+  /** Watch 패널 식 목록 */
+  const [watchExpressions, setWatchExpressions] = useState<string[]>([]);
+
   /** 파싱 에러 상태 */
   const [parseErrors, setParseErrors] = useState<ParseError[]>([]);
 
@@ -59,40 +99,54 @@ export default function Visualizer() {
   /**
    * 코드 로드 및 실행 엔진 초기화
    */
-  const loadCode = useCallback((codeToLoad: string) => {
-    // 동적 실행 엔진 생성 및 코드 로드
-    const engine = new DynamicExecutionEngine();
-    const result = engine.loadCode(codeToLoad);
-
-    if (result.success) {
-      engineRef.current = engine;
-      setParseErrors([]);
-      setExecutionState((prev) => ({
-        ...engine.getInitialState(),
-        speed: prev.speed,
-      }));
-    } else {
-      // 파싱 에러 발생
-      setParseErrors(result.errors ?? []);
-      engineRef.current = null;
-      setExecutionState((prev) => ({
-        callStack: [],
-        taskQueue: [],
-        microtaskQueue: [],
-        consoleOutput: [],
-        currentLine: null,
-        isRunning: false,
-        isPaused: false,
-        speed: prev.speed,
-      }));
-    }
-  }, []);
+  const loadCode = useCallback(
+    (
+      codeToLoad: string,
+      mode: RuntimeMode = runtime,
+      events: UserEvent[] = userEvents,
+      worker: string = workerCode,
+    ) => {
+      // 동적 실행 엔진 생성 및 코드 로드
+      const engine = new DynamicExecutionEngine({
+        runtime: mode,
+        userEvents: events,
+        workerScripts: { "worker.js": worker },
+      });
+      const result = engine.loadCode(codeToLoad);
+
+      if (result.success) {
+        engineRef.current = engine;
+        setParseErrors([]);
+        setExecutionState((prev) => ({
+          ...engine.getInitialState(),
+          speed: prev.speed,
+        }));
+      } else {
+        // 파싱 에러 발생
+        setParseErrors(result.errors ?? []);
+        engineRef.current = null;
+        setExecutionState((prev) => ({
+          callStack: [],
+          taskQueue: [],
+          microtaskQueue: [],
+          consoleOutput: [],
+          currentLine: null,
+          isRunning: false,
+          isPaused: false,
+          speed: prev.speed,
+        }));
+      }
+    },
+    [runtime, userEvents, workerCode],
+  );
 
   const handleSelectExample = useCallback((example: CodeExample) => {
     setSelectedExample(example);
     setCode(example.code);
-    loadCode(example.code);
-  }, [loadCode]);
+    setUserEvents([]);
+    setBreakpoints([]);
+    loadCode(example.code, runtime, []);
+  }, [loadCode, runtime]);
 
   /**
    * 코드 변경 핸들러 (디바운스 적용)
@@ -111,6 +165,46 @@ export default function Visualizer() {
     }, 500);
   }, [loadCode]);
 
+  /**
+   * 워커 코드 변경 핸들러 (디바운스 적용)
+   */
+  const handleWorkerCodeChange = useCallback(
+    (newCode: string) => {
+      setWorkerCode(newCode);
+
+      if (codeChangeTimerRef.current) {
+        clearTimeout(codeChangeTimerRef.current);
+      }
+
+      codeChangeTimerRef.current = setTimeout(() => {
+        loadCode(code, runtime, userEvents, newCode);
+      }, 500);
+    },
+    [code, runtime, userEvents, loadCode],
+  );
+
+  /** Watch 식을 현재 단계의 스코프에서 평가 */
+  const watches = watchExpressions.map((expression) => ({
+    expression,
+    result: engineRef.current?.evaluate(expression) ?? null,
+  }));
+
+  const handleAddWatch = useCallback((expression: string) => {
+    setWatchExpressions((prev) =>
+      prev.includes(expression) ? prev : [...prev, expression],
+    );
+  }, []);
+
+  const handleRemoveWatch = useCallback((index: number) => {
+    setWatchExpressions((prev) => prev.filter((_, i) => i !== index));
+  }, []);
+
+  /** 현재 단계를 실행 중인 에이전트의 탭에서만 실행 줄 표시 */
+  const editorLine =
+    (activeTab === "worker") === Boolean(executionState.activeAgent)
+      ? executionState.currentLine
+      : null;
+
   const handlePlay = useCallback(() => {
     if (!engineRef.current) return;
 
@@ -125,10 +219,14 @@ export default function Visualizer() {
       isPaused: false,
     }));
 
-    engineRef.current.play(executionState.speed, (newState) => {
-      setExecutionState((prev) => ({ ...newState, speed: prev.speed }));
-    });
-  }, [executionState.speed]);
+    engineRef.current.play(
+      executionState.speed,
+      (newState) => {
+        setExecutionState((prev) => ({ ...newState, speed: prev.speed }));
+      },
+      breakpoints,
+    );
+  }, [executionState.speed, breakpoints]);
 
   const handlePause = useCallback(() => {
     if (!engineRef.current) return;
@@ -150,6 +248,57 @@ export default function Visualizer() {
     }
   }, []);
 
+  /**
+   * 재생을 멈추고 엔진 이동 결과를 일시정지 상태로 반영
+   */
+  const navigate = useCallback(
+    (move: (engine: DynamicExecutionEngine) => ExecutionState | null) => {
+      if (!engineRef.current) return;
+
+      engineRef.current.stop();
+      const newState = move(engineRef.current);
+      if (newState) {
+        setExecutionState((prev) => ({
+          ...newState,
+          isRunning: false,
+          isPaused: true,
+          speed: prev.speed,
+        }));
+      }
+    },
+    [],
+  );
+
+  /** 한 단계 되돌리기 */
+  const handleStepBack = useCallback(
+    () => navigate((engine) => engine.stepBack()),
+    [navigate],
+  );
+
+  /** 타임라인에서 선택한 단계로 이동 */
+  const handleSeek = useCallback(
+    (index: number) => navigate((engine) => engine.seek(index)),
+    [navigate],
+  );
+
+  /** 함수 호출을 건너뛰고 같은 깊이의 다음 단계로 */
+  const handleStepOver = useCallback(
+    () => navigate((engine) => engine.stepOver(breakpoints)),
+    [navigate, breakpoints],
+  );
+
+  /** 현재 함수가 반환할 때까지 */
+  const handleStepOut = useCallback(
+    () => navigate((engine) => engine.stepOut(breakpoints)),
+    [navigate, breakpoints],
+  );
+
+  /** 이벤트 루프가 다음 콜백을 실행할 때까지 */
+  const handleRunToNextTick = useCallback(
+    () => navigate((engine) => engine.runToNextTick(breakpoints)),
+    [navigate, breakpoints],
+  );
+
   const handleReset = useCallback(() => {
     if (!engineRef.current) return;
 
@@ -173,14 +322,52 @@ export default function Visualizer() {
         !executionState.isPaused &&
         engineRef.current
       ) {
-        engineRef.current.play(speed, (newState) => {
-          setExecutionState((_) => ({ ...newState, speed }));
-        });
+        engineRef.current.play(
+          speed,
+          (newState) => {
+            setExecutionState((_) => ({ ...newState, speed }));
+          },
+          breakpoints,
+        );
       }
     },
-    [executionState.isRunning, executionState.isPaused],
+    [executionState.isRunning, executionState.isPaused, breakpoints],
+  );
+
+  /**
+   * 런타임 전환 (현재 코드를 새 런타임으로 다시 실행 트레이스 생성)
+   */
+  const handleRuntimeChange = useCallback(
+    (mode: RuntimeMode) => {
+      engineRef.current?.stop();
+      setRuntime(mode);
+      loadCode(code, mode);
+    },
+    [code, loadCode],
   );
 
+  /**
+   * 사용자 클릭 추가 (현재 가상 시각에 발생, 트레이스를 처음부터 다시 생성)
+   */
+  const handleUserClick = useCallback(
+    (selector: string) => {
+      engineRef.current?.stop();
+      const events: UserEvent[] = [
+        ...userEvents,
+        { type: "click", selector, time: executionState.currentTime ?? 0 },
+      ];
+      setUserEvents(events);
+      loadCode(code, runtime, events);
+    },
+    [code, runtime, userEvents, executionState.currentTime, loadCode],
+  );
+
+  const handleClearUserEvents = useCallback(() => {
+    engineRef.current?.stop();
+    setUserEvents([]);
+    loadCode(code, runtime, []);
+  }, [code, runtime, loadCode]);
+
   const handleClearConsole = useCallback(() => {
     setExecutionState((prev) => ({
       ...prev,
@@ -203,9 +390,12 @@ export default function Visualizer() {
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // 입력 중인 곳(CodeMirror 편집기는 contenteditable)에서는 단축키 무시
       if (
         e.target instanceof HTMLTextAreaElement ||
-        e.target instanceof HTMLInputElement
+        e.target instanceof HTMLInputElement ||
+        (e.target instanceof HTMLElement &&
+          (e.target.isContentEditable || e.target.closest(".cm-editor")))
       ) {
         return;
       }
@@ -223,6 +413,27 @@ export default function Visualizer() {
           e.preventDefault();
           handleStep();
           break;
+        case "ArrowLeft":
+          e.preventDefault();
+          handleStepBack();
+          break;
+        case "F10":
+          e.preventDefault();
+          handleStepOver();
+          break;
+        case "F11":
+          e.preventDefault();
+          if (e.shiftKey) {
+            handleStepOut();
+          } else {
+            handleStep();
+          }
+          break;
+        case "n":
+        case "N":
+          e.preventDefault();
+          handleRunToNextTick();
+          break;
         case "r":
         case "R":
           e.preventDefault();
@@ -239,6 +450,10 @@ export default function Visualizer() {
     handlePlay,
     handlePause,
     handleStep,
+    handleStepBack,
+    handleStepOver,
+    handleStepOut,
+    handleRunToNextTick,
     handleReset,
   ]);
 
@@ -264,9 +479,19 @@ export default function Visualizer() {
         isRunning={executionState.isRunning}
         isPaused={executionState.isPaused}
         speed={executionState.speed}
+        virtualTime={executionState.currentTime ?? 0}
+        stepIndex={executionState.stepIndex ?? 0}
+        totalSteps={executionState.totalSteps ?? 0}
+        runtime={runtime}
+        onRuntimeChange={handleRuntimeChange}
         onPlay={handlePlay}
         onPause={handlePause}
         onStep={handleStep}
+        onStepBack={handleStepBack}
+        onStepOver={handleStepOver}
+        onStepOut={handleStepOut}
+        onRunToNextTick={handleRunToNextTick}
+        onSeek={handleSeek}
         onReset={handleReset}
         onSpeedChange={handleSpeedChange}
         exampleDrawer={
@@ -287,52 +512,152 @@ export default function Visualizer() {
             minWidth: LAYOUT_CONFIG.leftPanel.minWidth,
           }}
         >
-          <div className="flex-1 p-4 overflow-hidden">
-            <CodeEditor
-              code={code}
-              currentLine={executionState.currentLine}
-              onChange={handleCodeChange}
-              readOnly={executionState.isRunning}
-              parseErrors={parseErrors}
-            />
+          {/* 코드 탭: main.js / worker.js */}
+          <div className="flex gap-1 px-4 pt-3">
+            {(["main", "worker"] as const).map((tab) => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => setActiveTab(tab)}
+                className={cn(
+                  "px-3 py-1 text-xs font-mono rounded-t-md border border-b-0",
+                  activeTab === tab
+                    ? "bg-card text-foreground"
+                    : "bg-muted text-muted-foreground hover:text-foreground",
+                )}
+                data-testid={`tab-${tab}`}
+              >
+                {tab}.js
+              </button>
+            ))}
           </div>
+
+          <div className="flex-1 px-4 pb-4 overflow-hidden">
+            {activeTab === "main" ? (
+              <CodeEditor
+                key="main"
+                code={code}
+                currentLine={editorLine}
+                onChange={handleCodeChange}
+                readOnly={executionState.isRunning}
+                parseErrors={parseErrors}
+                breakpoints={breakpoints}
+                onBreakpointsChange={setBreakpoints}
+              />
+            ) : (
+              <CodeEditor
+                key="worker"
+                code={workerCode}
+                currentLine={editorLine}
+                onChange={handleWorkerCodeChange}
+                readOnly={executionState.isRunning}
+              />
+            )}
+          </div>
+
+          {/* 시뮬레이션 DOM 사용자 클릭 (브라우저 전용) */}
+          {runtime === "browser" && (
+            <div className="px-4 pb-4">
+              <UserEventBar
+                targets={userEventTargets}
+                events={userEvents}
+                virtualTime={executionState.currentTime ?? 0}
+                disabled={executionState.isRunning && !executionState.isPaused}
+                onClick={handleUserClick}
+                onClear={handleClearUserEvents}
+              />
+            </div>
+          )}
         </div>
 
         {/* 우측: 시각화 영역 */}
         <div className="flex-1 flex flex-col overflow-hidden">
-          {/* Task Queue - 수평 배치 */}
+          {/* Web APIs + Task Queue - 수평 배치 */}
           <div
-            className="border-b p-3"
+            className="border-b p-3 flex gap-3"
             style={{ height: LAYOUT_CONFIG.rightPanel.queueHeight }}
           >
+            <WebApisPanel
+              title={runtime === "node" ? "Node APIs (libuv)" : "Web APIs"}
+              items={executionState.webApis ?? []}
+              className="w-2/5 min-w-0"
+            />
+
             <QueuePanel
-              title="Task Queue"
+              title={
+                runtime === "node"
+                  ? "Macrotask Queue (timers · check)"
+                  : "Task Queue"
+              }
               type="task"
               items={executionState.taskQueue}
+              phase={executionState.phase}
+              className="flex-1 min-w-0"
             />
           </div>
 
           {/* Microtask Queue - 수평 배치 */}
           <div
-            className="border-b p-3"
+            className="border-b p-3 flex gap-3"
             style={{ height: LAYOUT_CONFIG.rightPanel.queueHeight }}
           >
             <QueuePanel
-              title="Microtask Queue"
+              title={
+                runtime === "node"
+                  ? "Microtask Queue (nextTick → Promise)"
+                  : "Microtask Queue"
+              }
               type="microtask"
               items={executionState.microtaskQueue}
+              className="flex-1 min-w-0"
             />
+
+            {/* Animation Callbacks - 렌더링 단계 (브라우저 전용) */}
+            {runtime === "browser" && (
+              <QueuePanel
+                title="Animation Callbacks"
+                type="animation"
+                items={executionState.animationQueue ?? []}
+                className="w-1/3 min-w-0"
+              />
+            )}
           </div>
 
-          {/* 하단: Call Stack + Console */}
+          {/* Workers - 워커마다 별도의 콜스택/큐 (new Worker 사용 시) */}
+          {executionState.agents && executionState.agents.length > 0 && (
+            <div className="h-52 border-b p-3">
+              <AgentPanel
+                agents={executionState.agents}
+                activeAgent={executionState.activeAgent ?? null}
+              />
+            </div>
+          )}
+
+          {/* 하단: Call Stack + Scope + Console */}
           <div className="flex-1 flex overflow-hidden">
-            {/* Call Stack */}
-            <div className="w-1/2 p-3 border-r overflow-hidden">
-              <CallStackPanel frames={executionState.callStack} />
+            {/* Call Stack + Watch */}
+            <div className="w-1/3 p-3 border-r overflow-hidden flex flex-col gap-3">
+              <div className="flex-1 min-h-0">
+                <CallStackPanel
+                  frames={executionState.callStack}
+                  suspendedFrames={executionState.suspendedFrames}
+                />
+              </div>
+              <WatchPanel
+                watches={watches}
+                onAdd={handleAddWatch}
+                onRemove={handleRemoveWatch}
+                className="h-44 shrink-0"
+              />
+            </div>
+
+            {/* Scope chain - 프레임별 블록/함수/클로저/전역 스코프 */}
+            <div className="w-1/3 p-3 border-r overflow-hidden">
+              <ScopePanel frames={executionState.callStack} />
             </div>
 
             {/* Console Output */}
-            <div className="w-1/2 overflow-hidden">
+            <div className="w-1/3 overflow-hidden">
               <ConsolePanel
                 logs={executionState.consoleOutput}
                 onClear={handleClearConsole}
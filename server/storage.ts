@@ -156,6 +156,156 @@ export class MemStorage implements IStorage {
         learningTips:
           "The await keyword pauses function execution and schedules the continuation as a microtask. Sync code completes first, then microtasks run.",
       },
+      {
+        id: "9",
+        title: "Generators: Pausing and Resuming a Function",
+        code: `function* steps() {
+            console.log('step 1');
+            const input = yield 'paused';
+            console.log('step 2', input);
+            return 'done';
+          }
+          const gen = steps();
+          console.log(gen.next().value);
+          console.log('caller runs');
+          console.log(gen.next('resumed').value);`,
+        description:
+          "How a generator frame leaves the call stack at yield and re-enters on next()",
+        group: "complex",
+        difficulty: "advanced",
+        expectedOutput: [
+          "step 1",
+          "paused",
+          "caller runs",
+          "step 2 resumed",
+          "done",
+        ],
+        learningTips:
+          "Calling steps() only creates a generator object. Each next() pushes the generator frame back onto the call stack; yield pops it off while keeping its variables. async/await works the same way, except the engine calls next() for you from a microtask when the awaited promise settles.",
+      },
+      {
+        id: "10",
+        title: "forEach Does Not Wait for async Callbacks",
+        code: `const ids = [1, 2, 3];
+          async function save(id) {
+            await Promise.resolve();
+            console.log('saved', id);
+          }
+          ids.forEach(async (id) => {
+            await save(id);
+          });
+          console.log('all done?');`,
+        description:
+          "Why an async callback inside forEach finishes after the code that follows it",
+        group: "complex",
+        difficulty: "intermediate",
+        expectedOutput: ["all done?", "saved 1", "saved 2", "saved 3"],
+        learningTips:
+          "forEach calls each callback synchronously and throws away the promise it returns. Every callback pauses at await, so 'all done?' is logged before any save finishes. Use for...of with await to run them in order, or await Promise.all(ids.map(save)) to run them together.",
+      },
+      {
+        id: "11",
+        title: "Overlapping fetch Requests",
+        code: `let latestQuery = '';
+          async function search(query) {
+            latestQuery = query;
+            const res = await fetch('/api/search?q=' + query);
+            const data = await res.json();
+            console.log('render results for', data.query);
+            if (query !== latestQuery) console.log('stale response!');
+          }
+          search('j');
+          search('js');`,
+        description:
+          "Why a slower, older request can overwrite the results of a newer one",
+        group: "eventloop",
+        difficulty: "intermediate",
+        expectedOutput: [
+          "render results for js",
+          "render results for j",
+          "stale response!",
+        ],
+        learningTips:
+          "Each fetch response arrives as its own task after its network latency, not in the order the requests were sent. The 'j' search takes 400ms and the 'js' search 120ms, so the older response lands last. Compare the query against the latest one (or abort the old request) before rendering.",
+      },
+      {
+        id: "12",
+        title: "User Click vs el.click()",
+        code: `const outer = document.querySelector('.outer');
+          const inner = document.querySelector('.inner');
+          function onClick() {
+            console.log('click');
+            setTimeout(() => console.log('timeout'), 0);
+            Promise.resolve().then(() => console.log('promise'));
+          }
+          inner.addEventListener('click', onClick);
+          outer.addEventListener('click', onClick);
+          inner.click();`,
+        description:
+          "Why the same listeners log in a different order for a real click and a scripted one",
+        group: "complex",
+        difficulty: "advanced",
+        expectedOutput: [
+          "click",
+          "click",
+          "promise",
+          "promise",
+          "timeout",
+          "timeout",
+        ],
+        learningTips:
+          "inner.click() dispatches synchronously while the script is still on the call stack, so no microtask can run until both listeners have finished. Remove the last line and inject a user click on .inner instead: the browser calls each listener from an empty stack, so the microtask checkpoint runs between them and you get click, promise, click, promise.",
+      },
+      {
+        id: "13",
+        title: "MessageChannel as a setImmediate Polyfill",
+        code: `const channel = new MessageChannel();
+          const callbacks = [];
+          channel.port1.onmessage = () => callbacks.shift()();
+          function setImmediate(fn) {
+            callbacks.push(fn);
+            channel.port2.postMessage(null);
+          }
+          setTimeout(() => console.log('timeout'), 0);
+          setImmediate(() => console.log('immediate 1'));
+          setImmediate(() => console.log('immediate 2'));
+          Promise.resolve().then(() => console.log('promise'));
+          console.log('sync');`,
+        description:
+          "How libraries schedule a task without waiting for the timer clamp",
+        group: "eventloop",
+        difficulty: "advanced",
+        expectedOutput: [
+          "sync",
+          "promise",
+          "immediate 1",
+          "immediate 2",
+          "timeout",
+        ],
+        learningTips:
+          "port2.postMessage() queues a message task on port1 right away, while setTimeout has to wait for its timer to expire before its task is queued. Assigning port1.onmessage also starts the port; with addEventListener('message') you must call port1.start() yourself, or the messages wait in the port's queue.",
+      },
+      {
+        id: "14",
+        title: "Microtasks Are Not Just Promises",
+        code: `const list = document.querySelector('#list');
+          const observer = new MutationObserver((records) => {
+            console.log('mutations', records.length);
+          });
+          observer.observe(list, { attributes: true });
+          Promise.resolve().then(() => console.log('promise'));
+          list.setAttribute('data-page', '1');
+          queueMicrotask(() => console.log('queueMicrotask'));
+          list.setAttribute('data-page', '2');
+          console.log('sync');`,
+        description:
+          "How DOM mutations, queueMicrotask and Promise reactions share one microtask queue",
+        group: "eventloop",
+        difficulty: "intermediate",
+        expectedOutput: ["sync", "promise", "mutations 2", "queueMicrotask"],
+        learningTips:
+          "The first setAttribute queues one MutationObserver microtask; the second only adds a record to it, so the callback runs once with both records. All three sources wait in the same microtask queue in the order they were queued, and every one of them runs before the next task.",
+      },
     ];
 
     exampleData.forEach((example) => {
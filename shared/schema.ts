@@ -13,11 +13,30 @@ export const codeExampleSchema = z.object({
 
 export type CodeExample = z.infer<typeof codeExampleSchema>;
 
+export const scopeBindingSchema = z.object({
+  name: z.string(),
+  kind: z.enum(["var", "let", "const"]),
+  value: z.string(), // formatted for display
+  initialized: z.boolean(), // false for let/const = still in the TDZ
+});
+
+export type ScopeBinding = z.infer<typeof scopeBindingSchema>;
+
+export const scopeSnapshotSchema = z.object({
+  id: z.string(),
+  type: z.enum(["block", "function", "closure", "global"]), // closure = captured from an outer function
+  name: z.string().nullable(), // function that owns a function/closure scope
+  bindings: z.array(scopeBindingSchema),
+});
+
+export type ScopeSnapshot = z.infer<typeof scopeSnapshotSchema>;
+
 export const stackFrameSchema = z.object({
   id: z.string(),
   functionName: z.string(),
   location: z.string(),
   variables: z.record(z.string(), z.unknown()).optional(),
+  scopes: z.array(scopeSnapshotSchema).optional(), // innermost first
 });
 
 export type StackFrame = z.infer<typeof stackFrameSchema>;
@@ -25,7 +44,8 @@ export type StackFrame = z.infer<typeof stackFrameSchema>;
 export const queueItemSchema = z.object({
   id: z.string(),
   type: z.enum(["task", "microtask"]),
-  source: z.string(), // "setTimeout", "Promise.then", etc.
+  source: z.string(), // "setTimeout", "PromiseReactionJob", etc.
+  category: z.string().optional(), // "Promise reaction" for promise jobs
   callback: z.string(), // code preview
   timestamp: z.number(),
   createdAt: z.number(),
@@ -33,6 +53,18 @@ export const queueItemSchema = z.object({
 
 export type QueueItem = z.infer<typeof queueItemSchema>;
 
+export const webApiItemSchema = z.object({
+  id: z.string(),
+  timerId: z.number(),
+  source: z.string(), // "setTimeout", "setInterval", "fetch"
+  callback: z.string(), // code preview
+  startedAt: z.number(), // virtual time when registered (ms)
+  dueTime: z.number(), // virtual time when it becomes a task (ms)
+  remaining: z.number(), // dueTime - current virtual time (ms)
+});
+
+export type WebApiItem = z.infer<typeof webApiItemSchema>;
+
 export const consoleLogSchema = z.object({
   id: z.string(),
   timestamp: z.number(),
@@ -42,12 +74,34 @@ export const consoleLogSchema = z.object({
 
 export type ConsoleLog = z.infer<typeof consoleLogSchema>;
 
+export const agentStateSchema = z.object({
+  id: z.string(),
+  name: z.string(), // "worker.js #1"
+  callStack: z.array(stackFrameSchema),
+  taskQueue: z.array(queueItemSchema),
+  microtaskQueue: z.array(queueItemSchema),
+  currentLine: z.number().nullable(),
+  currentTime: z.number(), // the agent's own virtual clock (ms)
+  terminated: z.boolean(),
+});
+
+export type AgentState = z.infer<typeof agentStateSchema>;
+
 export const executionStateSchema = z.object({
   callStack: z.array(stackFrameSchema),
+  suspendedFrames: z.array(stackFrameSchema).optional(), // paused generators
   taskQueue: z.array(queueItemSchema),
   microtaskQueue: z.array(queueItemSchema),
+  animationQueue: z.array(queueItemSchema).optional(), // requestAnimationFrame callbacks
+  webApis: z.array(webApiItemSchema).optional(), // timers and requests held by the host
+  agents: z.array(agentStateSchema).optional(), // Web Workers, each with its own event loop
+  activeAgent: z.string().nullable().optional(), // agent that produced this step (null = main)
   consoleOutput: z.array(consoleLogSchema),
   currentLine: z.number().nullable(),
+  currentTime: z.number().optional(), // virtual clock (ms)
+  phase: z.string().nullable().optional(), // Node.js event loop phase
+  stepIndex: z.number().optional(), // steps applied so far (0 = before the first step)
+  totalSteps: z.number().optional(), // length of the execution trace
   isRunning: z.boolean(),
   isPaused: z.boolean(),
   speed: z.number(), // milliseconds per step